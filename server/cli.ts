@@ -0,0 +1,129 @@
+import { createInterface } from 'node:readline/promises';
+import { Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import { AccessError } from '../src/access';
+import { startHeadless } from './headless';
+import { printResult } from './output';
+
+const USAGE = `usage: npm run cli -- [options] [command line]
+
+Runs a dashboard command against a headless command center and exits with
+status 1 if it failed. With no command line, starts an interactive prompt.
+Quote pipes and chains so the shell passes them through:
+  npm run cli -- 'status | where cpu>80'
+
+Users, history and the audit log are shared with the HTTP API and kept in
+$CLAWBOT_STATE_DIR (default: $XDG_STATE_HOME/clawbot or
+~/.local/state/clawbot). They are separate from the dashboard's, which
+live in the browser.
+
+Users more privileged than a new session need their password for --user:
+it is asked for on the terminal, or read from $CLAWBOT_PASSWORD. On a fresh
+state directory, run 'su admin' at the prompt to set the admin password.
+
+options:
+  -u, --user <name>    Run as this user (default: the current user)
+  -s, --source <spec>  Agent source: simulator, ws://... or sse:... (default: simulator)
+      --seed <n>       Seed the simulator so runs replay exactly
+      --scenario <ref> Play a simulator scenario: a built-in name or a JSON file
+      --json           Print the structured result instead of log lines
+  -h, --help           Show this help`;
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    user: { type: 'string', short: 'u' },
+    source: { type: 'string', short: 's' },
+    seed: { type: 'string' },
+    scenario: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+if (options.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const { center, stop } = await startHeadless(options).catch((err: Error) => {
+  console.error(err.message);
+  process.exit(2);
+});
+const interactive = process.stdin.isTTY ?? false;
+// Echo goes through here so password answers can be hidden.
+let muted = false;
+const echo = new Writable({
+  write(chunk, encoding, callback) {
+    if (!muted) process.stdout.write(chunk, encoding);
+    callback();
+  },
+});
+const rl = interactive ? createInterface({ input: process.stdin, output: echo, terminal: true }) : null;
+
+// Questions from --force-able commands are asked on the terminal when
+// there is one; otherwise they are declined.
+const confirm = rl ? async (message: string) => /^y(es)?$/i.test((await rl.question(`${message} [y/N] `)).trim()) : undefined;
+
+const askPassword = rl ? async (message: string) => {
+  process.stdout.write(`${message} `);
+  muted = true;
+  try {
+    return await rl.question('');
+  } finally {
+    muted = false;
+    process.stdout.write('\n');
+  }
+} : undefined;
+
+async function authenticate(name: string): Promise<string> {
+  let password: string | null = null;
+  if (center.users.requiresPassword(name)) {
+    password = process.env.CLAWBOT_PASSWORD ?? (askPassword ? await askPassword(`Password for ${name.toLowerCase()}:`) : null);
+  }
+  return (await center.users.authenticate(name, password)).name;
+}
+
+const user = options.user === undefined ? undefined : await authenticate(options.user).catch((err: Error) => {
+  console.error(err instanceof AccessError ? err.message : `Could not authenticate: ${err.message}`);
+  rl?.close();
+  stop();
+  process.exit(2);
+});
+
+async function run(line: string): Promise<boolean> {
+  try {
+    const result = await center.execute(line, { user, confirm, askPassword });
+    printResult(result, options.json);
+    return result.ok;
+  } catch (err) {
+    console.error((err as Error).message);
+    return false;
+  }
+}
+
+if (positionals.length > 0) {
+  const ok = await run(positionals.join(' '));
+  rl?.close();
+  stop();
+  process.exit(ok ? 0 : 1);
+}
+
+if (!rl) {
+  console.error('No command given and stdin is not a terminal.\n');
+  console.error(USAGE);
+  stop();
+  process.exit(2);
+}
+
+console.log(`Connected to ${center.source?.label}. Type 'help' for commands, 'exit' to quit.`);
+rl.on('close', () => {
+  stop();
+  process.exit(0);
+});
+for (;;) {
+  const line = (await rl.question(`${user ?? center.users.current.name}@clawbot ❯ `)).trim();
+  if (line === 'exit' || line === 'quit') break;
+  if (line) await run(line);
+}
+rl.close();
@@ -0,0 +1,113 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { basename, join } from 'node:path';
+import { CommandCenter } from '../src/core';
+import type { CenterStorage } from '../src/core';
+import { findScenario, isSeed, parseScenario, systemClock } from '../src/sim';
+import type { Clock, Scenario } from '../src/sim';
+import { createAgentSource } from '../src/sources';
+
+// Keeps each storage key in its own JSON file so the CLI and the HTTP API
+// see the same users, audit log and history. The dashboard keeps its own in
+// the browser's localStorage: the two trails are separate.
+export class FileStorage implements CenterStorage {
+  constructor(private dir: string) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  getItem(key: string): string | null {
+    try {
+      return readFileSync(this.path(key), 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  setItem(key: string, value: string) {
+    writeFileSync(this.path(key), value);
+  }
+
+  private path(key: string): string {
+    return join(this.dir, `${key.replace(/[^\w.-]/g, '_')}.json`);
+  }
+}
+
+// Per-user state, outside any checkout: $CLAWBOT_STATE_DIR, else
+// $XDG_STATE_HOME/clawbot, else ~/.local/state/clawbot.
+export function defaultStateDir(): string {
+  if (process.env.CLAWBOT_STATE_DIR) return process.env.CLAWBOT_STATE_DIR;
+  return join(process.env.XDG_STATE_HOME || join(homedir(), '.local', 'state'), 'clawbot');
+}
+
+export interface HeadlessOptions {
+  // Agent source spec, as for the dashboard's ?source= (default: simulator).
+  source?: string;
+  // Where users, history and the audit log live (default: defaultStateDir()).
+  stateDir?: string;
+  // Simulator only: replay from this seed and/or play this scenario.
+  seed?: string;
+  scenario?: string;
+  // Drives the simulator, log timestamps and ticks (default: system time).
+  clock?: Clock;
+}
+
+// A built-in scenario name or the path of a JSON file.
+export function loadScenario(ref: string): Scenario {
+  if (!existsSync(ref)) {
+    const scenario = findScenario(ref);
+    if (!scenario) throw new Error(`No scenario named ${ref} and no such file`);
+    return scenario;
+  }
+  return parseScenario(JSON.parse(readFileSync(ref, 'utf8')), basename(ref).replace(/\.json$/i, ''));
+}
+
+function parseSeed(value: string): number {
+  const seed = Number(value);
+  if (!isSeed(seed)) throw new Error(`Invalid seed: ${value}`);
+  return seed;
+}
+
+export interface Headless {
+  center: CommandCenter;
+  stop(): void;
+}
+
+// A command center attached to a source and ticking once a second, the way
+// the dashboard runs it. Resolves once the source has connected.
+export async function startHeadless(
+  { source, stateDir, seed, scenario, clock = systemClock }: HeadlessOptions = {},
+  timeoutMs = 10000,
+): Promise<Headless> {
+  const center = new CommandCenter({
+    storage: new FileStorage(stateDir ?? defaultStateDir()),
+    clock,
+  });
+  const agentSource = createAgentSource(source ?? process.env.CLAWBOT_SOURCE ?? 'simulator', {
+    seed: seed === undefined ? undefined : parseSeed(seed),
+    scenario: scenario === undefined ? undefined : loadScenario(scenario),
+    clock,
+  });
+  const disconnect = center.connect(agentSource);
+  const interval = clock.setInterval(() => center.tick(), 1000);
+  const stop = () => {
+    clock.clearInterval(interval);
+    disconnect();
+  };
+
+  if (center.connection !== 'connected') {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        stop();
+        reject(new Error(`Could not connect to ${agentSource.label} within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+      const unsubscribe = center.subscribe(() => {
+        if (center.connection !== 'connected') return;
+        clearTimeout(timer);
+        unsubscribe();
+        resolve();
+      });
+    });
+  }
+  return { center, stop };
+}
@@ -0,0 +1,164 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { AccessError } from '../src/access';
+import type { CommandCenter, ExecuteOptions } from '../src/core';
+import { EMPTY_FILTER, compileFilter } from '../src/logs';
+import type { LogFilter } from '../src/logs';
+import { startHeadless } from './headless';
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Local JSON API for scripts and tools:
+//
+//   POST /commands  Authorization: Basic <base64 "operator:password">
+//                   {"command": "status | where cpu>80"}
+//     -> 200 {"ok": true, "user": "operator", "lines": [...], "tables": [...], "files": [...]}
+//   GET  /health    -> 200 {"status": "ok", "connection": "connected", "agents": 8}
+//
+// Commands run exactly as typed in the dashboard, with the same roles and
+// audit trail. Every request authenticates its user: Basic auth with the
+// user's password, or just the name (X-Clawbot-User or "user" in the body)
+// for users no more privileged than a new session. It runs as that user
+// alone: 'su', 'use' and 'logs' last for the request and never change what
+// other clients see. Nobody can answer a confirmation or password prompt
+// here, so destructive commands need --force and 'su' can't step up. Set
+// passwords with the CLI ('user passwd'). Binds to localhost unless
+// --allow-remote is given, since Basic auth is sent in clear text. State is
+// shared with the CLI, not the dashboard (see defaultStateDir).
+const { values: options } = parseArgs({
+  options: {
+    port: { type: 'string', short: 'p', default: process.env.CLAWBOT_API_PORT ?? '8787' },
+    host: { type: 'string', default: '127.0.0.1' },
+    'allow-remote': { type: 'boolean', default: false },
+    source: { type: 'string', short: 's' },
+    seed: { type: 'string' },
+    scenario: { type: 'string' },
+  },
+});
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const USER_HEADER = 'x-clawbot-user';
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+function basicCredentials(req: IncomingMessage): { name: string; password: string } | null {
+  const header = req.headers.authorization;
+  if (header === undefined) return null;
+  const match = /^Basic\s+([A-Za-z0-9+/=]+)$/i.exec(header);
+  const decoded = match ? Buffer.from(match[1], 'base64').toString('utf8') : '';
+  const colon = decoded.indexOf(':');
+  if (colon < 1) throw new HttpError(400, 'Authorization must be Basic <base64 "user:password">');
+  return { name: decoded.slice(0, colon), password: decoded.slice(colon + 1) };
+}
+
+// The user a request runs as, checked with UserDirectory.authenticate.
+async function requestUser(center: CommandCenter, req: IncomingMessage, body: { user?: unknown }): Promise<string> {
+  const header = req.headers[USER_HEADER];
+  if (Array.isArray(header)) throw new HttpError(400, `Send one ${USER_HEADER} header`);
+  if (body.user !== undefined && typeof body.user !== 'string') throw new HttpError(400, '"user" must be a string');
+  const credentials = basicCredentials(req);
+  const names = [credentials?.name, header, body.user].filter((name): name is string => name !== undefined);
+  if (names.length === 0) throw new HttpError(401, `Authenticate with Basic auth or name the user with the ${USER_HEADER} header`);
+  if (names.some(name => name.toLowerCase() !== names[0].toLowerCase())) {
+    throw new HttpError(400, 'Authorization, X-Clawbot-User and "user" name different users');
+  }
+  try {
+    return (await center.users.authenticate(names[0], credentials?.password ?? null)).name;
+  } catch (err) {
+    if (err instanceof AccessError) throw new HttpError(401, err.message);
+    throw err;
+  }
+}
+
+// Prompt state for one request, so nothing typed by one client carries
+// over to another.
+function requestHost(center: CommandCenter): Partial<ExecuteOptions> {
+  let filter: LogFilter = EMPTY_FILTER;
+  let target: string | null = null;
+  return {
+    setLogFilter: (update) => {
+      filter = update(filter);
+    },
+    getVisibleLogs: () => {
+      const compiled = compileFilter(filter, null);
+      const all = center.logs.toArray();
+      return compiled.active ? all.filter(compiled.test) : all;
+    },
+    getTarget: () => target,
+    setTarget: (next) => {
+      target = next;
+    },
+  };
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+}
+
+if (!LOOPBACK_HOSTS.includes(options.host) && !options['allow-remote']) {
+  console.error(`Refusing to listen on ${options.host}: passwords would cross the network in clear text. Pass --allow-remote to do it anyway.`);
+  process.exit(2);
+}
+
+const { center, stop } = await startHeadless(options).catch((err: Error) => {
+  console.error(err.message);
+  process.exit(2);
+});
+
+const server = createServer(async (req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  try {
+    if (path === '/health') {
+      if (req.method !== 'GET') throw new HttpError(405, 'Use GET');
+      send(res, 200, { status: 'ok', connection: center.connection, agents: center.agents.length });
+      return;
+    }
+    if (path !== '/commands') throw new HttpError(404, `No route for ${path}`);
+    if (req.method !== 'POST') throw new HttpError(405, 'Use POST');
+
+    const body = await readJson(req) as { command?: unknown; user?: unknown } | null;
+    if (typeof body?.command !== 'string' || !body.command.trim()) {
+      throw new HttpError(400, '"command" must be a non-empty string');
+    }
+    const user = await requestUser(center, req, body);
+    send(res, 200, await center.execute(body.command, { ...requestHost(center), user, record: false }));
+  } catch (err) {
+    if (err instanceof HttpError && err.status === 401) res.setHeader('WWW-Authenticate', 'Basic realm="clawbot"');
+    if (err instanceof HttpError) send(res, err.status, { error: err.message });
+    else if (err instanceof AccessError) send(res, 403, { error: err.message });
+    else send(res, 500, { error: err instanceof Error ? err.message : String(err) });
+  }
+});
+
+server.listen(Number(options.port), options.host, () => {
+  console.log(`Command API listening on http://${options.host}:${options.port} (source: ${center.source?.label})`);
+});
+
+const shutdown = () => {
+  server.close();
+  stop();
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,31 @@
+import { writeFileSync } from 'node:fs';
+import type { ExecuteResult } from '../src/core';
+import type { LogEntry } from '../src/types';
+
+const COLORS: Record<LogEntry['type'], string> = {
+  info: '',
+  success: '\x1b[32m',
+  warning: '\x1b[33m',
+  error: '\x1b[31m',
+  system: '\x1b[36m',
+};
+
+export function formatLine({ agent, type, message }: LogEntry, color: boolean): string {
+  const text = agent === 'SYSTEM' ? message : `[${agent}] ${message}`;
+  return color && COLORS[type] ? `${COLORS[type]}${text}\x1b[0m` : text;
+}
+
+// Prints what a command logged (minus the echoed prompt line) and writes
+// any exported files to the working directory.
+export function printResult(result: ExecuteResult, json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    const color = process.stdout.isTTY ?? false;
+    result.lines.slice(1).forEach(line => console.log(formatLine(line, color)));
+  }
+  result.files.forEach(({ filename, content }) => {
+    writeFileSync(filename, content);
+    if (!json) console.log(`Wrote ${filename}`);
+  });
+}
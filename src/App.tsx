@@ -1,65 +1,23 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-
-interface Agent {
-  id: string;
-  name: string;
-  status: 'active' | 'idle' | 'error' | 'offline';
-  task: string;
-  cpu: number;
-  memory: number;
-  uptime: number;
-  lastPing: number;
-}
-
-interface LogEntry {
-  id: string;
-  timestamp: Date;
-  agent: string;
-  type: 'info' | 'success' | 'warning' | 'error' | 'system';
-  message: string;
-}
-
-const AGENT_NAMES = ['NEXUS-7', 'PHANTOM-X', 'CIPHER-9', 'VORTEX-3', 'ECHO-5', 'PULSE-2'];
-const TASKS = [
-  'Analyzing data streams...',
-  'Executing build pipeline...',
-  'Scanning network nodes...',
-  'Processing neural weights...',
-  'Compiling source modules...',
-  'Indexing knowledge base...',
-  'Running diagnostics...',
-  'Optimizing parameters...',
-];
-
-const SYSTEM_MESSAGES = [
-  'Neural network synchronization complete',
-  'Quantum encryption layer active',
-  'Memory defragmentation successful',
-  'Agent mesh topology optimized',
-  'Distributed cache refreshed',
-  'Anomaly detection threshold calibrated',
-];
-
-function generateAgent(index: number): Agent {
-  const statuses: Agent['status'][] = ['active', 'active', 'active', 'idle', 'error', 'offline'];
-  return {
-    id: `agent-${index}`,
-    name: AGENT_NAMES[index % AGENT_NAMES.length],
-    status: statuses[Math.floor(Math.random() * statuses.length)],
-    task: TASKS[Math.floor(Math.random() * TASKS.length)],
-    cpu: Math.floor(Math.random() * 100),
-    memory: Math.floor(Math.random() * 100),
-    uptime: Math.floor(Math.random() * 86400),
-    lastPing: Date.now() - Math.floor(Math.random() * 10000),
-  };
-}
-
-function formatUptime(seconds: number): string {
-  const h = Math.floor(seconds / 3600);
-  const m = Math.floor((seconds % 3600) / 60);
-  const s = seconds % 60;
-  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
-}
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import type { Agent } from './types';
+import { createAgentSource, resolveSourceSpec } from './sources';
+import type { AgentSource } from './sources';
+import { fleetGroups, fleetTags } from './commands';
+import { CommandCenter } from './core';
+import TerminalPane from './components/TerminalPane';
+import { FilteredLogView, bufferView, compileFilter, downloadFile, viewToArray } from './logs';
+import { MAX_PANES, PaneLayoutStore, cycleFocus, defaultLayout, focusPane, updatePane } from './panes';
+import type { Pane, PaneLayout } from './panes';
+import AgentDrawer from './components/AgentDrawer';
+import { agentSeries } from './metrics';
+import MetricsPanel from './components/MetricsPanel';
+import type { Job } from './jobs';
+import type { Liveness } from './liveness';
+import { formatAge } from './format';
+import AlertsStrip from './components/AlertsStrip';
+import { DEFAULT_LAYOUT, MAX_SAVED_LOGS, SessionStore } from './session';
+import type { SessionLayout, SessionState } from './session';
+import type { Task } from './tasks';
 
 function TypewriterText({ text, delay = 20 }: { text: string; delay?: number }) {
   const [displayText, setDisplayText] = useState('');
@@ -101,12 +59,25 @@ function StatusOrb({ status }: { status: Agent['status'] }) {
   );
 }
 
-function AgentCard({ agent, isSelected, onClick }: { agent: Agent; isSelected: boolean; onClick: () => void }) {
+function AgentCard({ agent, job, task, liveness, alerting, now, isSelected, onClick }: {
+  agent: Agent;
+  job?: Job;
+  task?: Task;
+  liveness: Liveness;
+  alerting: boolean;
+  now: number;
+  isSelected: boolean;
+  onClick: () => void;
+}) {
   return (
     <div
       onClick={onClick}
+      data-agent-card
+      role="button"
+      tabIndex={0}
+      aria-pressed={isSelected}
       className={`
-        relative p-4 rounded border cursor-pointer transition-all duration-300
+        relative p-4 rounded border cursor-pointer transition-all duration-300 outline-none focus-visible:ring-1 focus-visible:ring-[#00d4ff]
         ${isSelected 
           ? 'border-[#00ff9d] bg-[#00ff9d]/10 shadow-[0_0_20px_rgba(0,255,157,0.3),inset_0_0_20px_rgba(0,255,157,0.1)]' 
           : 'border-[#1a1a2e] bg-[#0d0d14] hover:border-[#00d4ff]/50 hover:bg-[#0d0d14]/80'
@@ -121,6 +92,7 @@ function AgentCard({ agent, isSelected, onClick }: { agent: Agent; isSelected: b
           <span className="font-['Orbitron'] font-bold text-[#00ff9d] tracking-wider text-sm">
             {agent.name}
           </span>
+          {alerting && <span className="text-[#ff006e] text-xs animate-pulse" title="Alert firing">⚠</span>}
         </div>
         <span className={`text-xs uppercase tracking-widest ${
           agent.status === 'active' ? 'text-[#00ff9d]' : 
@@ -133,6 +105,46 @@ function AgentCard({ agent, isSelected, onClick }: { agent: Agent; isSelected: b
       
       <div className="text-xs text-gray-400 mb-3 truncate">{agent.task}</div>
       
+      {agent.tags && agent.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 -mt-1 mb-3">
+          {agent.tags.map(tag => (
+            <span key={tag} className="px-1.5 text-[10px] tracking-wider text-[#00d4ff]/80 border border-[#00d4ff]/30 rounded">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+      
+      <div className={`text-[10px] tracking-wider -mt-2 mb-3 ${
+        liveness === 'offline' ? 'text-[#ff006e]' : liveness === 'late' ? 'text-yellow-400' : 'text-gray-600'
+      }`}>
+        LAST SEEN {agent.lastPing ? formatAge(now - agent.lastPing).toUpperCase() : 'NEVER'}
+      </div>
+      
+      {job && (
+        <div className="mb-3 text-xs">
+          <div className="flex justify-between text-yellow-400">
+            <span className="truncate">{job.operation.toUpperCase()} · {job.status === 'pending' ? 'queued' : job.message ?? 'starting'}</span>
+            <span className="shrink-0 ml-2">{job.progress}%</span>
+          </div>
+          <div className="h-1 bg-[#1a1a2e] rounded-full mt-1 overflow-hidden">
+            <div className="h-full bg-yellow-400 transition-all duration-500" style={{ width: `${job.progress}%` }} />
+          </div>
+        </div>
+      )}
+      
+      {task && (
+        <div className="mb-3 text-xs">
+          <div className="flex justify-between text-[#00d4ff]">
+            <span className="truncate">{task.id} · {task.title}</span>
+            <span className="shrink-0 ml-2">{task.progress}%</span>
+          </div>
+          <div className="h-1 bg-[#1a1a2e] rounded-full mt-1 overflow-hidden">
+            <div className="h-full bg-[#00d4ff] transition-all duration-500" style={{ width: `${task.progress}%` }} />
+          </div>
+        </div>
+      )}
+      
       <div className="grid grid-cols-2 gap-2 text-xs">
         <div>
           <span className="text-gray-500">CPU</span>
@@ -157,177 +169,54 @@ function AgentCard({ agent, isSelected, onClick }: { agent: Agent; isSelected: b
   );
 }
 
-function TerminalOutput({ logs }: { logs: LogEntry[] }) {
-  const containerRef = useRef<HTMLDivElement>(null);
-  
-  useEffect(() => {
-    if (containerRef.current) {
-      containerRef.current.scrollTop = containerRef.current.scrollHeight;
-    }
-  }, [logs]);
-  
-  const getLogColor = (type: LogEntry['type']) => {
-    switch (type) {
-      case 'success': return 'text-[#00ff9d]';
-      case 'warning': return 'text-yellow-400';
-      case 'error': return 'text-[#ff006e]';
-      case 'system': return 'text-[#00d4ff]';
-      default: return 'text-gray-300';
-    }
-  };
-  
-  const getLogPrefix = (type: LogEntry['type']) => {
-    switch (type) {
-      case 'success': return '[✓]';
-      case 'warning': return '[!]';
-      case 'error': return '[✗]';
-      case 'system': return '[◈]';
-      default: return '[→]';
-    }
-  };
-  
-  return (
-    <div 
-      ref={containerRef}
-      className="h-full overflow-y-auto font-mono text-sm p-4 space-y-1 scrollbar-thin"
-      style={{
-        background: 'linear-gradient(180deg, rgba(10,10,15,0.95) 0%, rgba(13,13,20,0.98) 100%)',
-      }}
-    >
-      {logs.map((log) => (
-        <div key={log.id} className="flex gap-2 hover:bg-white/5 px-2 py-0.5 rounded transition-colors">
-          <span className="text-gray-600 shrink-0">
-            {log.timestamp.toLocaleTimeString('en-US', { hour12: false })}.{log.timestamp.getMilliseconds().toString().padStart(3, '0')}
-          </span>
-          <span className={`shrink-0 ${getLogColor(log.type)}`}>{getLogPrefix(log.type)}</span>
-          <span className="text-[#00d4ff] shrink-0">[{log.agent}]</span>
-          <span className={getLogColor(log.type)}>{log.message}</span>
-        </div>
-      ))}
-      <div className="flex items-center gap-2 text-[#00ff9d] animate-pulse">
-        <span className="text-gray-600">
-          {new Date().toLocaleTimeString('en-US', { hour12: false })}.000
-        </span>
-        <span>▌</span>
-      </div>
-    </div>
-  );
-}
-
-function CommandInput({ onSubmit }: { onSubmit: (cmd: string) => void }) {
-  const [command, setCommand] = useState('');
-  const [history, setHistory] = useState<string[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (command.trim()) {
-      onSubmit(command);
-      setHistory(prev => [...prev, command]);
-      setCommand('');
-      setHistoryIndex(-1);
-    }
-  };
-  
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'ArrowUp' && history.length > 0) {
-      e.preventDefault();
-      const newIndex = historyIndex < history.length - 1 ? historyIndex + 1 : historyIndex;
-      setHistoryIndex(newIndex);
-      setCommand(history[history.length - 1 - newIndex] || '');
-    } else if (e.key === 'ArrowDown') {
-      e.preventDefault();
-      const newIndex = historyIndex > 0 ? historyIndex - 1 : -1;
-      setHistoryIndex(newIndex);
-      setCommand(newIndex === -1 ? '' : history[history.length - 1 - newIndex] || '');
-    }
-  };
-  
-  return (
-    <form onSubmit={handleSubmit} className="relative">
-      <div className="absolute inset-0 rounded-lg bg-gradient-to-r from-[#00ff9d]/20 via-[#00d4ff]/20 to-[#00ff9d]/20 blur-sm animate-pulse" />
-      <div className="relative flex items-center bg-[#0a0a0f] border border-[#00ff9d]/30 rounded-lg overflow-hidden">
-        <span className="text-[#00ff9d] pl-4 pr-2 font-bold">❯</span>
-        <input
-          type="text"
-          value={command}
-          onChange={(e) => setCommand(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder="Enter command... (try: status, deploy, restart, scan)"
-          className="flex-1 bg-transparent text-white py-3 px-2 outline-none placeholder-gray-600"
-          autoFocus
-        />
-        <button
-          type="submit"
-          className="px-6 py-3 bg-[#00ff9d]/10 text-[#00ff9d] hover:bg-[#00ff9d]/20 transition-colors border-l border-[#00ff9d]/30 font-['Orbitron'] text-sm tracking-wider"
-        >
-          EXEC
-        </button>
-      </div>
-    </form>
-  );
-}
-
-function MetricsPanel({ agents }: { agents: Agent[] }) {
-  const activeCount = agents.filter(a => a.status === 'active').length;
-  const errorCount = agents.filter(a => a.status === 'error').length;
-  const avgCpu = Math.round(agents.reduce((acc, a) => acc + a.cpu, 0) / agents.length);
-  const avgMem = Math.round(agents.reduce((acc, a) => acc + a.memory, 0) / agents.length);
-  
-  return (
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-      {[
-        { label: 'ACTIVE AGENTS', value: `${activeCount}/${agents.length}`, color: '#00ff9d' },
-        { label: 'ERRORS', value: errorCount.toString(), color: errorCount > 0 ? '#ff006e' : '#00ff9d' },
-        { label: 'AVG CPU', value: `${avgCpu}%`, color: avgCpu > 80 ? '#ff006e' : '#00d4ff' },
-        { label: 'AVG MEMORY', value: `${avgMem}%`, color: avgMem > 80 ? '#ff006e' : '#00d4ff' },
-      ].map((metric) => (
-        <div 
-          key={metric.label}
-          className="relative p-4 rounded border border-[#1a1a2e] bg-[#0d0d14]/80 overflow-hidden group hover:border-[#00d4ff]/30 transition-colors"
-        >
-          <div 
-            className="absolute bottom-0 left-0 h-1 transition-all duration-500"
-            style={{ 
-              backgroundColor: metric.color,
-              width: metric.label.includes('CPU') || metric.label.includes('MEMORY') 
-                ? metric.value 
-                : metric.label === 'ACTIVE AGENTS' 
-                  ? `${(activeCount / agents.length) * 100}%`
-                  : '100%',
-              boxShadow: `0 0 10px ${metric.color}`
-            }}
-          />
-          <div className="text-xs text-gray-500 tracking-widest mb-1">{metric.label}</div>
-          <div 
-            className="font-['Orbitron'] text-2xl font-bold"
-            style={{ color: metric.color, textShadow: `0 0 20px ${metric.color}` }}
-          >
-            {metric.value}
-          </div>
-        </div>
-      ))}
-    </div>
-  );
-}
-
 export default function App() {
-  const [agents, setAgents] = useState<Agent[]>(() => 
-    Array.from({ length: 6 }, (_, i) => generateAgent(i))
-  );
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [selectedAgent, setSelectedAgent] = useState<string | null>(null);
+  const [session] = useState(() => new SessionStore());
+  const [restored] = useState(() => session.load());
+  const [center] = useState(() => new CommandCenter({
+    logs: restored?.logs,
+    logRetention: restored?.logRetention,
+    macros: restored?.macros,
+  }));
+  const version = useSyncExternalStore(center.subscribe, () => center.version);
+  const [selectedAgent, setSelectedAgent] = useState<string | null>(restored?.selectedAgent ?? null);
+  const [layout, setLayout] = useState<SessionLayout>(restored?.layout ?? DEFAULT_LAYOUT);
+  const [confirmPrompt, setConfirmPrompt] = useState<{ paneId: string; message: string; secret: boolean } | null>(null);
+  // Receives the typed answer, or null when a newer question replaces it.
+  const confirmRef = useRef<{ paneId: string; secret: boolean; answer: (line: string | null) => void } | null>(null);
   const [bootComplete, setBootComplete] = useState(false);
+  const [now, setNow] = useState(Date.now);
   
-  const addLog = useCallback((agent: string, type: LogEntry['type'], message: string) => {
-    setLogs(prev => [...prev.slice(-100), {
-      id: `log-${Date.now()}-${Math.random()}`,
-      timestamp: new Date(),
-      agent,
-      type,
-      message
-    }]);
+  const { agents, connection, log: addLog } = center;
+  const logVersion = center.logVersion;
+  const jobs = useMemo(() => center.listJobs(), [center, version]);
+  const tasks = useMemo(() => center.listTasks(), [center, version]);
+  const alerts = useMemo(() => center.listAlerts(), [center, version]);
+  
+  // Terminal panes, saved per user. The ref lets a chain like
+  // 'pane split; pane list' see its own changes before React re-renders.
+  const user = center.users.current.name;
+  const [paneStore] = useState(() => new PaneLayoutStore());
+  const [panes, setPanes] = useState(() => ({ user, layout: paneStore.load(user) ?? defaultLayout(restored?.logFilter) }));
+  const panesRef = useRef(panes);
+  const changePanes = useCallback((change: (layout: PaneLayout) => PaneLayout) => {
+    const next = { ...panesRef.current, layout: change(panesRef.current.layout) };
+    panesRef.current = next;
+    setPanes(next);
   }, []);
+  useEffect(() => {
+    if (panesRef.current.user === user) return;
+    const next = { user, layout: paneStore.load(user) ?? defaultLayout() };
+    panesRef.current = next;
+    setPanes(next);
+  }, [user, paneStore]);
+  useEffect(() => paneStore.save(panes.user, panes.layout), [paneStore, panes]);
+  const paneLayout = panes.layout;
+  
+  const inputRefs = useRef(new Map<string, HTMLInputElement>());
+  const agentListRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    inputRefs.current.get(paneLayout.focused)?.focus();
+  }, [paneLayout.focused]);
   
   // Boot sequence
   useEffect(() => {
@@ -336,7 +225,15 @@ export default function App() {
       { delay: 800, msg: 'Loading neural interface drivers...' },
       { delay: 1200, msg: 'Establishing quantum-encrypted connections...' },
       { delay: 1600, msg: 'Synchronizing agent mesh network...' },
+      ...(restored ? [{
+        delay: 1800,
+        msg: `Restoring session saved ${formatAge(Date.now() - restored.savedAt)} (${restored.logs.length} log lines${restored.agents ? `, ${restored.agents.length} agents` : ''})...`,
+      }] : []),
       { delay: 2000, msg: 'Boot sequence complete. All systems nominal.' },
+      ...(center.users.needsSetup() ? [{
+        delay: 2100,
+        msg: `Signed in as ${center.users.current.name}. No admin password is set yet: type 'su admin' to choose one.`,
+      }] : []),
     ];
     
     bootMessages.forEach(({ delay, msg }) => {
@@ -344,85 +241,221 @@ export default function App() {
     });
     
     setTimeout(() => setBootComplete(true), 2500);
-  }, [addLog]);
+  }, [addLog, restored, center]);
+  
+  // Attach agent source
+  useEffect(() => {
+    if (!bootComplete) return;
+    
+    let source: AgentSource;
+    try {
+      source = createAgentSource(resolveSourceSpec(), { agents: restored?.agents });
+    } catch (err) {
+      addLog('SYSTEM', 'error', `${(err as Error).message}. Falling back to simulator.`);
+      source = createAgentSource('simulator');
+    }
+    addLog('SYSTEM', 'system', `Attaching agent source: ${source.label}`);
+    return center.connect(source);
+  }, [bootComplete, addLog, center, restored]);
   
-  // Simulate agent activity
+  // Heartbeat liveness, alert rules, task dispatch and metric sampling
   useEffect(() => {
     if (!bootComplete) return;
     
     const interval = setInterval(() => {
-      // Random log generation
-      const randomAgent = agents[Math.floor(Math.random() * agents.length)];
-      const logTypes: LogEntry['type'][] = ['info', 'info', 'info', 'success', 'warning'];
-      const messages = [
-        'Processing batch request #' + Math.floor(Math.random() * 9999),
-        'Memory allocation optimized',
-        'Task completed successfully',
-        'Network latency: ' + Math.floor(Math.random() * 50) + 'ms',
-        'Cache hit ratio: ' + (85 + Math.floor(Math.random() * 15)) + '%',
-        'Checkpoint saved',
-        'Model weights synchronized',
-        'Request queue depth: ' + Math.floor(Math.random() * 100),
-      ];
-      
-      if (Math.random() > 0.3) {
-        addLog(
-          randomAgent.name,
-          logTypes[Math.floor(Math.random() * logTypes.length)],
-          messages[Math.floor(Math.random() * messages.length)]
-        );
-      }
-      
-      // Update agent metrics
-      setAgents(prev => prev.map(agent => ({
-        ...agent,
-        cpu: Math.max(0, Math.min(100, agent.cpu + (Math.random() - 0.5) * 20)),
-        memory: Math.max(0, Math.min(100, agent.memory + (Math.random() - 0.5) * 10)),
-        uptime: agent.uptime + 1,
-        lastPing: agent.status !== 'offline' ? Date.now() : agent.lastPing,
-      })));
-    }, 1500);
+      const time = Date.now();
+      center.tick(time);
+      setNow(time);
+    }, 1000);
     
     return () => clearInterval(interval);
-  }, [bootComplete, agents, addLog]);
+  }, [bootComplete, center]);
   
-  const handleCommand = (cmd: string) => {
-    const cmdLower = cmd.toLowerCase().trim();
-    
-    addLog('USER', 'info', `$ ${cmd}`);
+  const selected = agents.find(a => a.id === selectedAgent) ?? null;
+  const closeDrawer = useCallback(() => setSelectedAgent(null), []);
+  const selectedName = selected?.name ?? null;
+  const drawerView = useMemo(
+    () => selectedName ? new FilteredLogView(center.logs, log => log.agent === selectedName) : null,
+    [center, selectedName],
+  );
+  const drawerLogs = useMemo(() => {
+    if (!drawerView) return [];
+    drawerView.refresh();
+    const view = drawerView.snapshot();
+    return viewToArray(view, view.size - 50);
+  }, [drawerView, logVersion]);
+  const agentGroups = useMemo(() => {
+    const groups = new Map<string | null, Agent[]>();
+    agents.forEach(agent => {
+      const key = agent.group ?? null;
+      groups.set(key, [...(groups.get(key) ?? []), agent]);
+    });
+    return [...groups.entries()]
+      .sort(([a], [b]) => a === null ? 1 : b === null ? -1 : a.localeCompare(b))
+      .map(([group, members]) => ({ group, members }));
+  }, [agents]);
+  const targetNames = useMemo(() => [
+    ...agents.map(a => a.name),
+    ...fleetTags(agents).map(tag => `tag:${tag}`),
+    ...fleetGroups(agents).map(group => `group:${group}`),
+  ], [agents]);
+  
+  // Session persistence: saved every few seconds and on unload. The
+  // simulator's registry is saved too so a reload keeps the same fleet.
+  const [savedAt, setSavedAt] = useState<number | null>(restored?.savedAt ?? null);
+  const sessionState = useRef<() => SessionState>();
+  sessionState.current = () => ({
+    selectedAgent,
+    logRetention: center.logs.capacity,
+    logs: viewToArray(bufferView(center.logs), center.logs.size - MAX_SAVED_LOGS),
+    layout,
+    macros: center.macros.toJSON(),
+    agents: center.source?.kind === 'simulator' ? agents : undefined,
+  });
+  const saveSession = useCallback(() => {
+    const saved = sessionState.current ? session.save(sessionState.current()) : false;
+    if (saved) setSavedAt(Date.now());
+    return saved;
+  }, [session]);
+  useEffect(() => {
+    if (!bootComplete) return;
+    const interval = setInterval(saveSession, 5000);
+    window.addEventListener('beforeunload', saveSession);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', saveSession);
+    };
+  }, [bootComplete, saveSession]);
+  
+  // Only one question is open at a time; a newer one cancels the older.
+  // It is answered at the prompt of the pane that asked.
+  const ask = useCallback((message: string, paneId: string, secret: boolean) => new Promise<string | null>(resolve => {
+    confirmRef.current?.answer(null);
+    confirmRef.current = { paneId, secret, answer: resolve };
+    setConfirmPrompt({ paneId, message, secret });
+    addLog('SYSTEM', 'warning', secret ? message : `${message} [y/N]`);
+  }), [addLog]);
+  const confirm = useCallback(
+    async (message: string, paneId: string) => /^y(es)?$/i.test((await ask(message, paneId, false))?.trim() ?? ''),
+    [ask],
+  );
+  
+  const handleCommand = (cmd: string, paneId: string, { record = true } = {}) => {
+    // Typed lines answer an open question; drawer actions (record: false)
+    // run normally and their own prompt supersedes it.
+    // Passwords are never echoed, and none of these answers reach history.
+    if (confirmRef.current?.paneId === paneId && record) {
+      addLog('USER', 'info', confirmRef.current.secret ? '$ ********' : `$ ${cmd.trim() || 'n'}`);
+      confirmRef.current.answer(cmd);
+      confirmRef.current = null;
+      setConfirmPrompt(null);
+      return;
+    }
     
-    if (cmdLower === 'status' || cmdLower === 'ls') {
-      agents.forEach((agent, i) => {
-        setTimeout(() => {
-          addLog('SYSTEM', agent.status === 'error' ? 'error' : 'info', 
-            `${agent.name}: ${agent.status.toUpperCase()} | CPU: ${Math.round(agent.cpu)}% | MEM: ${Math.round(agent.memory)}%`
-          );
-        }, i * 100);
-      });
-    } else if (cmdLower === 'deploy') {
-      addLog('SYSTEM', 'system', 'Initiating deployment sequence...');
-      setTimeout(() => addLog('SYSTEM', 'success', 'Deployment successful. All agents updated.'), 2000);
-    } else if (cmdLower === 'restart') {
-      addLog('SYSTEM', 'warning', 'Restarting all agents...');
-      setAgents(prev => prev.map(a => ({ ...a, status: 'idle' as const })));
-      setTimeout(() => {
-        setAgents(prev => prev.map(a => ({ ...a, status: 'active' as const })));
-        addLog('SYSTEM', 'success', 'All agents restarted successfully.');
-      }, 3000);
-    } else if (cmdLower === 'scan') {
-      addLog('SYSTEM', 'system', 'Scanning network for anomalies...');
-      setTimeout(() => addLog('SYSTEM', 'success', 'Scan complete. No threats detected.'), 2500);
-    } else if (cmdLower === 'help') {
-      ['Available commands:', '  status  - Show all agent statuses', '  deploy  - Deploy updates to all agents', '  restart - Restart all agents', '  scan    - Scan network for anomalies', '  clear   - Clear terminal output'].forEach((line, i) => {
-        setTimeout(() => addLog('SYSTEM', 'info', line), i * 50);
-      });
-    } else if (cmdLower === 'clear') {
-      setLogs([]);
-    } else {
-      addLog('SYSTEM', 'error', `Unknown command: ${cmd}. Type 'help' for available commands.`);
+    const pane = panesRef.current.layout.panes.find(p => p.id === paneId) ?? panesRef.current.layout.panes[0];
+    const updateThisPane = (update: (pane: Pane) => Pane) => changePanes(l => updatePane(l, pane.id, update));
+    // Tracked locally too, so 'use X; status' sees X straight away.
+    let target = pane.target;
+    void center.execute(cmd, {
+      record,
+      confirm: message => confirm(message, pane.id),
+      askPassword: message => ask(message, pane.id, true),
+      download: downloadFile,
+      session: {
+        savedAt: () => savedAt,
+        save: saveSession,
+        reset: () => {
+          session.reset();
+          paneStore.reset();
+          window.location.reload();
+        },
+      },
+      setLogFilter: update => updateThisPane(p => ({ ...p, filter: update(p.filter) })),
+      getVisibleLogs: () => {
+        const filter = compileFilter(panesRef.current.layout.panes.find(p => p.id === pane.id)?.filter ?? pane.filter, selectedName);
+        const all = center.logs.toArray();
+        return filter.active ? all.filter(filter.test) : all;
+      },
+      getTarget: () => target,
+      setTarget: next => {
+        target = next;
+        updateThisPane(p => ({ ...p, target: next }));
+      },
+      panes: { current: pane.id, layout: () => panesRef.current.layout, update: changePanes },
+    });
+  };
+  
+  // Keyboard: Alt+1 to Alt+MAX_PANES focuses a pane, Alt+[ and Alt+] cycle, Alt+\ and
+  // Alt+- split, Alt+W closes, Alt+A jumps to the agent cards. Codes rather
+  // than keys, since Alt changes the character on some layouts.
+  const shortcuts = useRef<(e: KeyboardEvent) => void>();
+  shortcuts.current = (e: KeyboardEvent) => {
+    if (!e.altKey || e.ctrlKey || e.metaKey) return;
+    const { panes: list, focused } = panesRef.current.layout;
+    const focusInput = (id: string) => {
+      changePanes(l => focusPane(l, id));
+      inputRefs.current.get(id)?.focus();
+    };
+    const digit = /^Digit([1-9])$/.exec(e.code);
+    if (digit && Number(digit[1]) <= MAX_PANES) {
+      const pane = list[Number(digit[1]) - 1];
+      if (!pane) return;
+      e.preventDefault();
+      focusInput(pane.id);
+      return;
     }
+    const actions: Record<string, () => void> = {
+      BracketLeft: () => focusInput(cycleFocus(panesRef.current.layout, -1).focused),
+      BracketRight: () => focusInput(cycleFocus(panesRef.current.layout, 1).focused),
+      Backslash: () => handleCommand('pane split horizontal', focused, { record: false }),
+      Minus: () => handleCommand('pane split vertical', focused, { record: false }),
+      KeyW: () => handleCommand(`pane close ${focused}`, focused, { record: false }),
+      KeyA: () => {
+        const list = agentListRef.current;
+        (list?.querySelector<HTMLElement>('[data-agent-card][aria-pressed="true"]') ?? list?.querySelector<HTMLElement>('[data-agent-card]'))?.focus();
+      },
+    };
+    const action = actions[e.code];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => shortcuts.current?.(e);
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+  
+  // Arrow keys (or j/k) move between agent cards, Enter/Space opens one and
+  // Escape returns to the focused pane's prompt.
+  const handleAgentKeys = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const cards = [...e.currentTarget.querySelectorAll<HTMLElement>('[data-agent-card]')];
+    const index = cards.indexOf(document.activeElement as HTMLElement);
+    if (index < 0) return;
+    const moveTo = (i: number) => cards[Math.max(0, Math.min(cards.length - 1, i))].focus();
+    const keys: Record<string, () => void> = {
+      ArrowDown: () => moveTo(index + 1),
+      j: () => moveTo(index + 1),
+      ArrowUp: () => moveTo(index - 1),
+      k: () => moveTo(index - 1),
+      Home: () => moveTo(0),
+      End: () => moveTo(cards.length - 1),
+      Enter: () => cards[index].click(),
+      ' ': () => cards[index].click(),
+      Escape: () => inputRefs.current.get(panesRef.current.layout.focused)?.focus(),
+    };
+    const action = keys[e.key];
+    if (!action) return;
+    e.preventDefault();
+    action();
   };
   
+  // Side by side panes wrap after two columns; stacked ones after two rows.
+  const paneCount = paneLayout.panes.length;
+  const paneGrid = paneLayout.direction === 'horizontal'
+    ? { gridTemplateColumns: `repeat(${Math.min(paneCount, 2)}, minmax(0, 1fr))`, gridAutoFlow: 'row' as const }
+    : { gridTemplateRows: `repeat(${Math.min(paneCount, 2)}, minmax(0, 1fr))`, gridAutoFlow: 'column' as const };
+  
   return (
     <div className="min-h-screen bg-[#0a0a0f] text-white flex flex-col relative overflow-hidden">
       {/* Background grid effect */}
@@ -463,8 +496,12 @@ export default function App() {
             
             <div className="hidden md:flex items-center gap-6">
               <div className="flex items-center gap-2">
-                <div className="w-2 h-2 rounded-full bg-[#00ff9d] animate-pulse shadow-[0_0_10px_#00ff9d]" />
-                <span className="text-xs text-gray-400">CONNECTED</span>
+                <div className={`w-2 h-2 rounded-full animate-pulse ${
+                  connection === 'connected' ? 'bg-[#00ff9d] shadow-[0_0_10px_#00ff9d]' :
+                  connection === 'connecting' ? 'bg-yellow-400 shadow-[0_0_10px_#facc15]' :
+                  'bg-[#ff006e] shadow-[0_0_10px_#ff006e]'
+                }`} />
+                <span className="text-xs text-gray-400">{connection.toUpperCase()}</span>
               </div>
               <div className="text-xs text-gray-500 font-mono">
                 {new Date().toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
@@ -477,7 +514,19 @@ export default function App() {
       {/* Main content */}
       <main className="flex-1 max-w-[1800px] mx-auto w-full px-4 lg:px-8 py-6 flex flex-col gap-6 relative z-10">
         {/* Metrics */}
-        <MetricsPanel agents={agents} />
+        <MetricsPanel
+          agents={agents}
+          store={center.metrics}
+          now={now}
+          windowMs={layout.metricsWindowMs}
+          onWindowChange={metricsWindowMs => setLayout(prev => ({ ...prev, metricsWindowMs }))}
+        />
+        
+        <AlertsStrip
+          alerts={alerts.filter(a => a.state === 'firing')}
+          now={now}
+          onAck={(id) => handleCommand(`ack ${id}`, paneLayout.focused, { record: false })}
+        />
         
         {/* Main grid */}
         <div className="flex-1 grid lg:grid-cols-[320px_1fr] gap-6 min-h-0">
@@ -489,14 +538,29 @@ export default function App() {
               </h2>
               <span className="text-xs text-gray-500">{agents.length} TOTAL</span>
             </div>
-            <div className="flex-1 overflow-y-auto space-y-3 pr-2 scrollbar-thin">
-              {agents.map((agent) => (
-                <AgentCard
-                  key={agent.id}
-                  agent={agent}
-                  isSelected={selectedAgent === agent.id}
-                  onClick={() => setSelectedAgent(selectedAgent === agent.id ? null : agent.id)}
-                />
+            <div ref={agentListRef} onKeyDown={handleAgentKeys} className="flex-1 overflow-y-auto space-y-3 pr-2 scrollbar-thin">
+              {agentGroups.map(({ group, members }) => (
+                <div key={group ?? ''} className="space-y-3">
+                  {group !== null && agentGroups.length > 1 && (
+                    <div className="flex items-center justify-between text-[10px] tracking-[0.2em] text-gray-500 pt-1">
+                      <span>{group.toUpperCase()}</span>
+                      <span>{members.length}</span>
+                    </div>
+                  )}
+                  {members.map((agent) => (
+                    <AgentCard
+                      key={agent.id}
+                      agent={agent}
+                      job={jobs.find(j => j.agentId === agent.id && (j.status === 'running' || j.status === 'pending'))}
+                      task={tasks.find(t => t.agentId === agent.id && t.status === 'running')}
+                      liveness={center.liveness.state(agent.id)}
+                      alerting={alerts.some(a => a.state === 'firing' && a.target === agent.name)}
+                      now={now}
+                      isSelected={selectedAgent === agent.id}
+                      onClick={() => setSelectedAgent(selectedAgent === agent.id ? null : agent.id)}
+                    />
+                  ))}
+                </div>
               ))}
             </div>
           </div>
@@ -508,19 +572,56 @@ export default function App() {
                 TERMINAL OUTPUT
               </h2>
               <div className="flex items-center gap-2">
+                <span className="hidden xl:inline text-[10px] text-gray-600 tracking-widest">
+                  ALT+1-{MAX_PANES} PANE · ALT+[ ] CYCLE · ALT+\ SPLIT · ALT+- STACK · ALT+W CLOSE · ALT+A AGENTS
+                </span>
+                <div className="hidden xl:block w-px h-4 bg-[#1a1a2e] mx-2" />
                 <div className="w-3 h-3 rounded-full bg-[#ff006e]/80" />
                 <div className="w-3 h-3 rounded-full bg-yellow-500/80" />
                 <div className="w-3 h-3 rounded-full bg-[#00ff9d]/80" />
               </div>
             </div>
-            <div className="flex-1 border border-[#1a1a2e] rounded-lg overflow-hidden bg-[#0a0a0f] min-h-[300px] lg:min-h-0">
-              <TerminalOutput logs={logs} />
+            <div className="flex-1 grid gap-3 min-h-[300px] lg:min-h-0" style={paneGrid}>
+              {paneLayout.panes.map((pane, index) => (
+                <TerminalPane
+                  key={pane.id}
+                  pane={pane}
+                  index={index}
+                  focused={pane.id === paneLayout.focused}
+                  canClose={paneCount > 1}
+                  logs={center.logs}
+                  logVersion={logVersion}
+                  selectedName={selectedName}
+                  agentNames={agents.map(a => a.name)}
+                  targetNames={targetNames}
+                  registry={center.registry}
+                  history={center.history}
+                  macros={center.macros}
+                  user={user}
+                  confirm={confirmPrompt?.paneId === pane.id ? confirmPrompt.message : null}
+                  secret={confirmPrompt?.paneId === pane.id && confirmPrompt.secret}
+                  inputRef={el => el ? inputRefs.current.set(pane.id, el) : inputRefs.current.delete(pane.id)}
+                  onFocus={() => changePanes(l => focusPane(l, pane.id))}
+                  onCommand={(line, options) => handleCommand(line, pane.id, options)}
+                  onFilterChange={filter => changePanes(l => updatePane(l, pane.id, p => ({ ...p, filter })))}
+                />
+              ))}
             </div>
-            <CommandInput onSubmit={handleCommand} />
           </div>
         </div>
       </main>
       
+      {selected && (
+        <AgentDrawer
+          agent={selected}
+          cpu={center.metrics.query(agentSeries(selected.id, 'cpu'), 120000, now)}
+          memory={center.metrics.query(agentSeries(selected.id, 'memory'), 120000, now)}
+          logs={drawerLogs}
+          onCommand={(line) => handleCommand(line, paneLayout.focused, { record: false })}
+          onClose={closeDrawer}
+        />
+      )}
+      
       {/* Footer */}
       <footer className="relative border-t border-[#1a1a2e] bg-[#0a0a0f]/90 backdrop-blur-sm z-10">
         <div className="max-w-[1800px] mx-auto px-4 lg:px-8 py-3">
@@ -0,0 +1,64 @@
+import type { Role } from './users';
+
+export type AuditOutcome = 'succeeded' | 'failed' | 'denied' | 'cancelled';
+
+export interface AuditEntry {
+  id: number;
+  timestamp: number;
+  user: string;
+  role: Role;
+  command: string;
+  // The command line exactly as executed, after alias expansion.
+  line: string;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+export interface AuditStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const STORAGE_KEY = 'clawbot.audit';
+
+function defaultStorage(): AuditStorage | undefined {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+// Append-only record of executed commands, kept across reloads. Only the
+// newest `limit` entries are retained.
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+  private nextId = 1;
+
+  constructor(private limit = 1000, private storage: AuditStorage | undefined = defaultStorage()) {
+    try {
+      const saved = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? '[]');
+      if (Array.isArray(saved)) {
+        this.entries = saved.filter((e): e is AuditEntry => typeof e?.id === 'number' && typeof e.line === 'string').slice(-limit);
+      }
+    } catch {
+      this.entries = [];
+    }
+    this.nextId = (this.entries[this.entries.length - 1]?.id ?? 0) + 1;
+  }
+
+  list(): AuditEntry[] {
+    return [...this.entries];
+  }
+
+  record(entry: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry {
+    const recorded = { id: this.nextId++, timestamp: Date.now(), ...entry };
+    this.entries = [...this.entries, recorded].slice(-this.limit);
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch {
+      // Storage full or unavailable; the in-memory log still works.
+    }
+    return recorded;
+  }
+}
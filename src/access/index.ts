@@ -0,0 +1,4 @@
+export { AuditLog } from './audit';
+export type { AuditEntry, AuditOutcome, AuditStorage } from './audit';
+export { AccessError, DEFAULT_USERS, ROLES, UserDirectory, hasRole, isRole } from './users';
+export type { Role, User, UserStorage } from './users';
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { UserDirectory } from './users';
+import type { UserStorage } from './users';
+
+function memoryStorage(initial?: object): UserStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  if (initial) items.set('clawbot.users', JSON.stringify(initial));
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe('UserDirectory', () => {
+  it('starts new sessions as viewer', () => {
+    expect(new UserDirectory(memoryStorage()).current).toEqual({ name: 'viewer', role: 'viewer' });
+  });
+
+  it('does not resume a privileged user without a password', () => {
+    const storage = memoryStorage({ users: [{ name: 'admin', role: 'admin' }, { name: 'viewer', role: 'viewer' }], current: 'admin' });
+    expect(new UserDirectory(storage).current.name).toBe('viewer');
+  });
+
+  it('resumes a privileged user with a password', async () => {
+    const storage = memoryStorage();
+    const users = new UserDirectory(storage);
+    await users.setPassword('admin', 's3cret');
+    users.switchTo('admin');
+    expect(new UserDirectory(storage).current.name).toBe('admin');
+  });
+
+  it('falls back to the least privileged user when there is no viewer', () => {
+    const storage = memoryStorage({ users: [{ name: 'root', role: 'admin' }, { name: 'ops', role: 'operator' }], current: 'root' });
+    expect(new UserDirectory(storage).current.name).toBe('ops');
+  });
+
+  it('needs setup until an admin has a password', async () => {
+    const users = new UserDirectory(memoryStorage());
+    await users.setPassword('operator', 'ops');
+    expect(users.needsSetup()).toBe(true);
+    await users.setPassword('admin', 's3cret');
+    expect(users.needsSetup()).toBe(false);
+  });
+
+  it('checks passwords against salted hashes', async () => {
+    const storage = memoryStorage();
+    const users = new UserDirectory(storage);
+    await users.setPassword('admin', 's3cret');
+    expect(await users.checkPassword('admin', 's3cret')).toBe(true);
+    expect(await users.checkPassword('admin', 'guess')).toBe(false);
+    expect(await users.checkPassword('operator', 's3cret')).toBe(false);
+    expect(storage.items.get('clawbot.users')).not.toContain('s3cret');
+  });
+
+  it('authenticates named users, requiring passwords above viewer', async () => {
+    const users = new UserDirectory(memoryStorage());
+    await users.setPassword('admin', 's3cret');
+
+    expect(users.requiresPassword('viewer')).toBe(false);
+    expect(users.requiresPassword('operator')).toBe(true);
+    await expect(users.authenticate('viewer', null)).resolves.toEqual({ name: 'viewer', role: 'viewer' });
+    await expect(users.authenticate('ADMIN', 's3cret')).resolves.toEqual({ name: 'admin', role: 'admin' });
+    await expect(users.authenticate('admin', null)).rejects.toThrow('admin has admin privileges and needs a password');
+    await expect(users.authenticate('admin', 'guess')).rejects.toThrow('Incorrect password for admin');
+    await expect(users.authenticate('operator', '')).rejects.toThrow('Incorrect password for operator');
+    await expect(users.authenticate('nobody', null)).rejects.toThrow('Unknown user: nobody');
+  });
+});
+
@@ -0,0 +1,206 @@
+export type Role = 'viewer' | 'operator' | 'admin';
+
+// Ordered from least to most privileged.
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+export interface User {
+  name: string;
+  role: Role;
+}
+
+export function hasRole(user: User, required: Role): boolean {
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(required);
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as string[]).includes(value);
+}
+
+export class AccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessError';
+  }
+}
+
+export interface UserStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const STORAGE_KEY = 'clawbot.users';
+const NAME_PATTERN = /^[a-z][a-z0-9_.-]*$/;
+
+export const DEFAULT_USERS: User[] = [
+  { name: 'admin', role: 'admin' },
+  { name: 'operator', role: 'operator' },
+  { name: 'viewer', role: 'viewer' },
+];
+// New sessions start with the least privilege. Stepping up needs the
+// target's password; until some admin has one, 'su' to an admin sets it
+// (first-run setup).
+const DEFAULT_USER = 'viewer';
+
+function defaultStorage(): UserStorage | undefined {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+// Salted with the user name so equal passwords don't share a hash.
+async function hashPassword(name: string, password: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`clawbot:${name}:${password}`));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Local user directory. Switching to a more privileged user takes that
+// user's password; hashes are kept apart from the user list so listing
+// users never exposes them. Every switch is audited.
+export class UserDirectory {
+  private users: User[] = DEFAULT_USERS;
+  private currentName = DEFAULT_USER;
+  private passwords: Record<string, string> = {};
+
+  constructor(private storage: UserStorage | undefined = defaultStorage()) {
+    try {
+      const saved = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? 'null');
+      if (saved && Array.isArray(saved.users)) {
+        const users = saved.users.filter((u: User) => typeof u?.name === 'string' && isRole(u.role));
+        if (users.some((u: User) => u.role === 'admin')) this.users = users;
+      }
+      if (typeof saved?.current === 'string' && this.find(saved.current)) this.currentName = saved.current;
+      if (saved && typeof saved.passwords === 'object' && saved.passwords !== null) {
+        Object.entries(saved.passwords).forEach(([name, hash]) => {
+          if (typeof hash === 'string' && this.find(name)) this.passwords[name] = hash;
+        });
+      }
+    } catch {
+      // Fall back to the default users.
+    }
+    // A privileged user without a password (older versions started everyone
+    // as admin) is not resumed.
+    const current = this.find(this.currentName);
+    const fallback = this.fallback();
+    if (!current || (ROLES.indexOf(current.role) > ROLES.indexOf(fallback.role) && !this.hasPassword(current.name))) {
+      this.currentName = fallback.name;
+    }
+  }
+
+  get current(): User {
+    return this.find(this.currentName)!;
+  }
+
+  list(): User[] {
+    return [...this.users];
+  }
+
+  find(name: string): User | undefined {
+    const key = name.toLowerCase();
+    return this.users.find(u => u.name === key);
+  }
+
+  switchTo(name: string): User {
+    const user = this.find(name);
+    if (!user) throw new AccessError(`Unknown user: ${name}`);
+    this.currentName = user.name;
+    this.save();
+    return user;
+  }
+
+  // True until an admin has a password; 'su' then lets the first caller set it.
+  needsSetup(): boolean {
+    return !this.users.some(u => u.role === 'admin' && this.passwords[u.name] !== undefined);
+  }
+
+  hasPassword(name: string): boolean {
+    const user = this.find(name);
+    return user !== undefined && this.passwords[user.name] !== undefined;
+  }
+
+  async setPassword(name: string, password: string): Promise<User> {
+    const user = this.find(name);
+    if (!user) throw new AccessError(`Unknown user: ${name}`);
+    if (!password) throw new AccessError('Password cannot be empty');
+    this.passwords = { ...this.passwords, [user.name]: await hashPassword(user.name, password) };
+    this.save();
+    return user;
+  }
+
+  async checkPassword(name: string, password: string): Promise<boolean> {
+    const user = this.find(name);
+    if (!user || this.passwords[user.name] === undefined) return false;
+    return this.passwords[user.name] === await hashPassword(user.name, password);
+  }
+
+  // Whether acting as this user without 'su' (CLI --user, API requests)
+  // takes a password: anyone above the role sessions start with.
+  requiresPassword(name: string): boolean {
+    const user = this.find(name);
+    return user !== undefined && ROLES.indexOf(user.role) > ROLES.indexOf(this.fallback().role);
+  }
+
+  // Checks a caller that names its user up front. A password, when given,
+  // must match even for users that don't require one.
+  async authenticate(name: string, password: string | null): Promise<User> {
+    const user = this.find(name);
+    if (!user) throw new AccessError(`Unknown user: ${name}`);
+    if (password !== null) {
+      if (!await this.checkPassword(user.name, password)) throw new AccessError(`Incorrect password for ${user.name}`);
+    } else if (this.requiresPassword(user.name)) {
+      throw new AccessError(`${user.name} has ${user.role} privileges and needs a password`);
+    }
+    return user;
+  }
+
+  add(name: string, role: Role): User {
+    const key = name.toLowerCase();
+    if (!NAME_PATTERN.test(key)) throw new AccessError(`Invalid user name "${name}": start with a letter, then letters, digits, '-', '_' or '.'`);
+    if (this.find(key)) throw new AccessError(`User ${key} already exists`);
+    const user = { name: key, role };
+    this.users = [...this.users, user];
+    this.save();
+    return user;
+  }
+
+  remove(name: string): User {
+    const user = this.find(name);
+    if (!user) throw new AccessError(`Unknown user: ${name}`);
+    if (user.name === this.currentName) throw new AccessError('Cannot remove the current user');
+    this.assertAdminRemains(this.users.filter(u => u !== user));
+    this.users = this.users.filter(u => u !== user);
+    const { [user.name]: _removed, ...passwords } = this.passwords;
+    this.passwords = passwords;
+    this.save();
+    return user;
+  }
+
+  setRole(name: string, role: Role): User {
+    const user = this.find(name);
+    if (!user) throw new AccessError(`Unknown user: ${name}`);
+    const next = { ...user, role };
+    this.assertAdminRemains(this.users.map(u => u === user ? next : u));
+    this.users = this.users.map(u => u === user ? next : u);
+    this.save();
+    return next;
+  }
+
+  // Where sessions start: the least privileged user, preferring the default.
+  private fallback(): User {
+    const rank = (user: User) => ROLES.indexOf(user.role) * 2 + (user.name === DEFAULT_USER ? 0 : 1);
+    return [...this.users].sort((a, b) => rank(a) - rank(b))[0];
+  }
+
+  private assertAdminRemains(users: User[]) {
+    if (!users.some(u => u.role === 'admin')) throw new AccessError('At least one admin must remain');
+  }
+
+  private save() {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify({ users: this.users, current: this.currentName, passwords: this.passwords }));
+    } catch {
+      // Storage full or unavailable; keep working in memory.
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Agent } from '../types';
+import { AlertEngine } from './engine';
+import { parseRule } from './rules';
+
+function agent(cpu: number, status: Agent['status'] = 'active'): Agent {
+  return { id: 'a1', name: 'ALPHA', status, task: '', cpu, memory: 40, uptime: 0, lastPing: 0 };
+}
+
+describe('AlertEngine', () => {
+  it('fires only after the condition has held for forMs', () => {
+    const engine = new AlertEngine();
+    engine.addRule(parseRule('cpu > 90 for 30s'));
+
+    expect(engine.evaluate([agent(95)], 0)).toEqual([]);
+    expect(engine.evaluate([agent(95)], 29999)).toEqual([]);
+    const [event] = engine.evaluate([agent(97)], 30000);
+    expect(event.type).toBe('fired');
+    expect(event.alert).toMatchObject({ target: 'ALPHA', value: 97, firedAt: 30000 });
+    expect(engine.evaluate([agent(99)], 31000)).toEqual([]);
+    expect(engine.firing()).toHaveLength(1);
+  });
+
+  it('restarts the forMs window when the condition clears', () => {
+    const engine = new AlertEngine();
+    engine.addRule(parseRule('cpu > 90 for 30s'));
+
+    engine.evaluate([agent(95)], 0);
+    engine.evaluate([agent(50)], 20000);
+    expect(engine.evaluate([agent(95)], 40000)).toEqual([]);
+    expect(engine.evaluate([agent(95)], 70000)).toHaveLength(1);
+  });
+
+  it('resolves when the condition clears and holds back re-firing during cooldown', () => {
+    const engine = new AlertEngine();
+    engine.addRule(parseRule('cpu > 90 cooldown 1m'));
+
+    expect(engine.evaluate([agent(95)], 0).map(e => e.type)).toEqual(['fired']);
+    const [resolved] = engine.evaluate([agent(50)], 10000);
+    expect(resolved).toMatchObject({ type: 'resolved', alert: { state: 'resolved', resolvedAt: 10000 } });
+
+    expect(engine.evaluate([agent(95)], 20000)).toEqual([]);
+    expect(engine.evaluate([agent(95)], 69999)).toEqual([]);
+    expect(engine.evaluate([agent(95)], 70000).map(e => e.type)).toEqual(['fired']);
+  });
+
+  it('evaluates fleet metrics as a single target', () => {
+    const engine = new AlertEngine();
+    engine.addRule(parseRule('errorCount >= 2 severity critical'));
+
+    expect(engine.evaluate([agent(10, 'error')], 0)).toEqual([]);
+    const [event] = engine.evaluate([agent(10, 'error'), { ...agent(10, 'error'), id: 'a2', name: 'BRAVO' }], 1000);
+    expect(event.alert).toMatchObject({ target: 'FLEET', severity: 'critical', value: 2 });
+  });
+
+  it('resolves open alerts when their rule is removed', () => {
+    const engine = new AlertEngine();
+    const rule = engine.addRule(parseRule('cpu > 90'));
+    engine.evaluate([agent(95)], 0);
+
+    engine.removeRule(rule.id);
+    expect(engine.evaluate([agent(95)], 1000).map(e => e.type)).toEqual(['resolved']);
+    expect(engine.firing()).toEqual([]);
+  });
+});
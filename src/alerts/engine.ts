@@ -0,0 +1,155 @@
+import type { Agent } from '../types';
+import { agentMetric, compare, describeRule, fleetMetric, isFleetMetric } from './rules';
+import type { AgentMetric, AlertRule, RuleDraft, Severity } from './rules';
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  target: string;
+  severity: Severity;
+  state: 'firing' | 'resolved';
+  acknowledged: boolean;
+  value: number;
+  message: string;
+  firedAt: number;
+  resolvedAt?: number;
+}
+
+export type AlertEvent =
+  | { type: 'fired'; alert: Alert }
+  | { type: 'resolved'; alert: Alert };
+
+interface TargetState {
+  since: number | null;
+  alertId: string | null;
+  lastResolved: number | null;
+}
+
+// Evaluates rules per (rule, target) pair. A condition must hold for the
+// rule's `forMs` before firing; one alert stays open per pair until the
+// condition clears, and a resolved pair cannot fire again within `cooldownMs`.
+export class AlertEngine {
+  private rules: AlertRule[] = [];
+  private alerts: Alert[] = [];
+  private targets = new Map<string, TargetState>();
+  private nextRuleId = 1;
+  private nextAlertId = 1;
+
+  constructor(private onChange: (alerts: Alert[]) => void = () => {}, private keep = 100) {}
+
+  listRules(): AlertRule[] {
+    return [...this.rules];
+  }
+
+  addRule(draft: RuleDraft): AlertRule {
+    const rule = { ...draft, id: `R${this.nextRuleId++}` };
+    this.rules = [...this.rules, rule];
+    return rule;
+  }
+
+  removeRule(id: string): AlertRule | undefined {
+    const rule = this.findRule(id);
+    if (!rule) return undefined;
+    // Its open alerts resolve on the next evaluate().
+    this.rules = this.rules.filter(r => r !== rule);
+    return rule;
+  }
+
+  findRule(id: string): AlertRule | undefined {
+    return this.rules.find(r => r.id.toLowerCase() === id.toLowerCase());
+  }
+
+  list(): Alert[] {
+    return [...this.alerts];
+  }
+
+  firing(): Alert[] {
+    return this.alerts.filter(a => a.state === 'firing');
+  }
+
+  acknowledge(id: string): Alert | undefined {
+    const alert = this.alerts.find(a => a.id.toLowerCase() === id.toLowerCase());
+    if (!alert) return undefined;
+    this.replace({ ...alert, acknowledged: true });
+    this.onChange(this.list());
+    return this.alerts.find(a => a.id === alert.id);
+  }
+
+  evaluate(agents: Agent[], now = Date.now()): AlertEvent[] {
+    const events: AlertEvent[] = [];
+    const live = new Set<string>();
+
+    for (const rule of this.rules) {
+      const samples: { target: string; value: number }[] = isFleetMetric(rule.metric)
+        ? [{ target: 'FLEET', value: fleetMetric(agents, rule.metric) }]
+        : agents
+            .filter(a => !rule.agent || a.name.toLowerCase() === rule.agent.toLowerCase())
+            .map(a => ({ target: a.name, value: agentMetric(a, rule.metric as AgentMetric, now) }));
+
+      for (const { target, value } of samples) {
+        const key = `${rule.id}:${target}`;
+        live.add(key);
+        const state = this.targets.get(key) ?? { since: null, alertId: null, lastResolved: null };
+        this.targets.set(key, state);
+
+        if (compare(value, rule.op, rule.threshold)) {
+          state.since ??= now;
+          const coolingDown = state.lastResolved !== null && now - state.lastResolved < rule.cooldownMs;
+          if (!state.alertId && !coolingDown && now - state.since >= rule.forMs) {
+            const alert: Alert = {
+              id: `A${this.nextAlertId++}`,
+              ruleId: rule.id,
+              target,
+              severity: rule.severity,
+              state: 'firing',
+              acknowledged: false,
+              value,
+              message: `${describeRule(rule)} (${target}: ${Math.round(value * 10) / 10})`,
+              firedAt: now,
+            };
+            state.alertId = alert.id;
+            this.alerts = [...this.alerts, alert];
+            events.push({ type: 'fired', alert });
+          } else if (state.alertId) {
+            const open = this.alerts.find(a => a.id === state.alertId);
+            if (open) this.replace({ ...open, value });
+          }
+        } else {
+          state.since = null;
+          if (state.alertId) events.push(...this.resolve(state, now));
+        }
+      }
+    }
+
+    // Targets that disappeared (agent removed, rule deleted) resolve too.
+    for (const [key, state] of this.targets) {
+      if (live.has(key)) continue;
+      if (state.alertId) events.push(...this.resolve(state, now));
+      this.targets.delete(key);
+    }
+
+    this.prune();
+    if (events.length > 0) this.onChange(this.list());
+    return events;
+  }
+
+  private resolve(state: TargetState, now: number): AlertEvent[] {
+    const open = this.alerts.find(a => a.id === state.alertId);
+    state.alertId = null;
+    state.lastResolved = now;
+    if (!open) return [];
+    const resolved: Alert = { ...open, state: 'resolved', resolvedAt: now };
+    this.replace(resolved);
+    return [{ type: 'resolved', alert: resolved }];
+  }
+
+  private replace(alert: Alert) {
+    this.alerts = this.alerts.map(a => a.id === alert.id ? alert : a);
+  }
+
+  private prune() {
+    let excess = this.alerts.length - this.keep;
+    if (excess <= 0) return;
+    this.alerts = this.alerts.filter(a => !(a.state === 'resolved' && excess-- > 0));
+  }
+}
@@ -0,0 +1,4 @@
+export { AlertEngine } from './engine';
+export type { Alert, AlertEvent } from './engine';
+export { DEFAULT_RULES, RuleSyntaxError, SEVERITIES, describeRule, parseRule } from './rules';
+export type { AlertMetric, AlertRule, RuleDraft, Severity } from './rules';
@@ -0,0 +1,135 @@
+import { formatDuration, parseDuration } from '../format';
+import type { Agent } from '../types';
+
+export type AgentMetric = 'cpu' | 'memory' | 'uptime' | 'pingAge';
+export type FleetMetric = 'avgCpu' | 'avgMemory' | 'errorCount' | 'activeCount' | 'offlineCount';
+export type AlertMetric = AgentMetric | FleetMetric;
+export type Comparison = '>' | '>=' | '<' | '<=' | '==' | '!=';
+export type Severity = 'info' | 'warning' | 'critical';
+
+export const AGENT_METRICS: AgentMetric[] = ['cpu', 'memory', 'uptime', 'pingAge'];
+export const FLEET_METRICS: FleetMetric[] = ['avgCpu', 'avgMemory', 'errorCount', 'activeCount', 'offlineCount'];
+export const SEVERITIES: Severity[] = ['info', 'warning', 'critical'];
+const COMPARISONS: Comparison[] = ['>=', '<=', '==', '!=', '>', '<'];
+
+export interface AlertRule {
+  id: string;
+  metric: AlertMetric;
+  op: Comparison;
+  threshold: number;
+  forMs: number;
+  // Agent name the rule is limited to; null means any agent. Ignored for fleet metrics.
+  agent: string | null;
+  severity: Severity;
+  cooldownMs: number;
+}
+
+export type RuleDraft = Omit<AlertRule, 'id'>;
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+export function isFleetMetric(metric: AlertMetric): metric is FleetMetric {
+  return (FLEET_METRICS as string[]).includes(metric);
+}
+
+export function compare(value: number, op: Comparison, threshold: number): boolean {
+  switch (op) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '==': return value === threshold;
+    case '!=': return value !== threshold;
+  }
+}
+
+export function agentMetric(agent: Agent, metric: AgentMetric, now: number): number {
+  switch (metric) {
+    case 'pingAge': return Math.max(0, (now - agent.lastPing) / 1000);
+    default: return agent[metric];
+  }
+}
+
+export function fleetMetric(agents: Agent[], metric: FleetMetric): number {
+  const avg = (pick: (a: Agent) => number) => agents.length ? agents.reduce((acc, a) => acc + pick(a), 0) / agents.length : 0;
+  switch (metric) {
+    case 'avgCpu': return avg(a => a.cpu);
+    case 'avgMemory': return avg(a => a.memory);
+    case 'errorCount': return agents.filter(a => a.status === 'error').length;
+    case 'activeCount': return agents.filter(a => a.status === 'active').length;
+    case 'offlineCount': return agents.filter(a => a.status === 'offline').length;
+  }
+}
+
+// Grammar: <metric> <op> <number> [for <duration>] [on <agent>|any]
+//          [severity <level>] [cooldown <duration>]
+export function parseRule(text: string): RuleDraft {
+  const match = /^\s*([A-Za-z]+)\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?)\s*(.*)$/.exec(text);
+  if (!match) throw new RuleSyntaxError(`Expected '<metric> <op> <value>', got '${text.trim()}'`);
+  const [, metricName, op, value, rest] = match;
+
+  const metric = [...AGENT_METRICS, ...FLEET_METRICS].find(m => m.toLowerCase() === metricName.toLowerCase());
+  if (!metric) {
+    throw new RuleSyntaxError(`Unknown metric '${metricName}'. Expected one of ${[...AGENT_METRICS, ...FLEET_METRICS].join(', ')}`);
+  }
+
+  const draft: RuleDraft = {
+    metric,
+    op: COMPARISONS.find(c => c === op)!,
+    threshold: Number(value),
+    forMs: 0,
+    agent: null,
+    severity: 'warning',
+    cooldownMs: 60000,
+  };
+
+  const words = rest.trim().split(/\s+/).filter(Boolean);
+  for (let i = 0; i < words.length; i += 2) {
+    const key = words[i].toLowerCase();
+    const arg = words[i + 1];
+    if (arg === undefined) throw new RuleSyntaxError(`Missing value after '${words[i]}'`);
+    switch (key) {
+      case 'for':
+      case 'cooldown': {
+        const ms = parseDuration(arg);
+        if (Number.isNaN(ms)) throw new RuleSyntaxError(`Invalid duration '${arg}'`);
+        if (key === 'for') draft.forMs = ms;
+        else draft.cooldownMs = ms;
+        break;
+      }
+      case 'on':
+        draft.agent = arg.toLowerCase() === 'any' ? null : arg;
+        break;
+      case 'severity': {
+        const severity = SEVERITIES.find(s => s === arg.toLowerCase());
+        if (!severity) throw new RuleSyntaxError(`Unknown severity '${arg}'. Expected one of ${SEVERITIES.join(', ')}`);
+        draft.severity = severity;
+        break;
+      }
+      default:
+        throw new RuleSyntaxError(`Unexpected '${words[i]}'. Expected for, on, severity or cooldown`);
+    }
+  }
+  if (draft.agent && isFleetMetric(metric)) {
+    throw new RuleSyntaxError(`'${metric}' is a fleet metric and cannot target an agent`);
+  }
+  return draft;
+}
+
+export function describeRule(rule: RuleDraft): string {
+  const parts = [`${rule.metric} ${rule.op} ${rule.threshold}`];
+  if (rule.forMs > 0) parts.push(`for ${formatDuration(rule.forMs)}`);
+  if (!isFleetMetric(rule.metric)) parts.push(`on ${rule.agent ?? 'any'}`);
+  return parts.join(' ');
+}
+
+export const DEFAULT_RULES: string[] = [
+  'cpu > 90 for 30s on any severity warning',
+  'memory > 90 for 30s on any severity warning',
+  'errorCount >= 2 severity critical',
+];
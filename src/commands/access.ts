@@ -0,0 +1,161 @@
+import { AccessError, ROLES, hasRole, isRole } from '../access';
+import type { Role } from '../access';
+import { table } from '../output';
+import { CommandError } from './errors';
+import type { CommandSpec, FlagSpec } from './types';
+
+export const forceFlag: FlagSpec = { name: 'force', type: 'boolean', description: 'Skip the confirmation prompt' };
+
+function accessChange<T>(change: () => T): T {
+  try {
+    return change();
+  } catch (err) {
+    if (err instanceof AccessError) throw new CommandError(err.message);
+    throw err;
+  }
+}
+
+function parseRole(value: string | undefined): Role {
+  const role = value?.toLowerCase() ?? '';
+  if (!isRole(role)) throw new CommandError(`Invalid role: ${value ?? '(none)'}.`, `Use one of: ${ROLES.join(', ')}.`);
+  return role;
+}
+
+export const whoamiCommand: CommandSpec = {
+  name: 'whoami',
+  summary: 'Show the current user and role',
+  run: (ctx) => {
+    const { name, role } = ctx.user;
+    ctx.log('SYSTEM', 'info', `${name} (${role})`);
+  },
+};
+
+export const suCommand: CommandSpec = {
+  name: 'su',
+  summary: 'Switch to another local user',
+  args: [{ name: 'user', required: true, description: 'User to become' }],
+  flags: [forceFlag],
+  // Stepping down is free, but warn when there is no password to step back up.
+  confirm: (ctx, { args }) => {
+    const target = ctx.users.find(args.user as string);
+    return target && hasRole(ctx.user, target.role) && target.role !== ctx.user.role && !ctx.users.hasPassword(ctx.user.name)
+      ? `${ctx.user.name} has no password, so you won't be able to switch back. Switch to ${target.name}?`
+      : undefined;
+  },
+  // Moving to a more privileged user always takes that user's password;
+  // --force only skips the question above. The first switch to an admin
+  // before any admin has a password sets one instead.
+  run: async (ctx, { args }) => {
+    const target = ctx.users.find(args.user as string);
+    if (!target) throw new CommandError(`Unknown user: ${args.user}.`);
+    if (!hasRole(ctx.user, target.role) && target.role === 'admin' && ctx.users.needsSetup()) {
+      const password = await ctx.askPassword(`First-run setup: choose a password for ${target.name}:`);
+      if (password === null) throw new CommandError('Cancelled.');
+      if (await ctx.askPassword('Repeat the password:') !== password) throw new CommandError('Passwords do not match.');
+      await ctx.users.setPassword(target.name, password).catch((err: unknown) => {
+        if (err instanceof AccessError) throw new CommandError(err.message);
+        throw err;
+      });
+      ctx.log('SYSTEM', 'success', `Password set for ${target.name}.`);
+    } else if (!hasRole(ctx.user, target.role)) {
+      if (!ctx.users.hasPassword(target.name)) {
+        throw new CommandError(
+          `Cannot switch to ${target.name}: it has ${target.role} privileges and no password.`,
+          `An admin can set one with 'user passwd ${target.name}'.`,
+        );
+      }
+      const password = await ctx.askPassword(`Password for ${target.name}:`);
+      if (password === null) throw new CommandError('Cancelled.');
+      if (!await ctx.users.checkPassword(target.name, password)) throw new CommandError('Incorrect password.');
+    }
+    const user = accessChange(() => ctx.switchUser(target.name));
+    ctx.log('SYSTEM', 'success', `Now acting as ${user.name} (${user.role}).`);
+  },
+};
+
+export const userCommand: CommandSpec = {
+  name: 'user',
+  summary: 'Manage local users (list, add, rm, role, passwd)',
+  args: [
+    { name: 'action', required: true, choices: ['list', 'add', 'rm', 'role', 'passwd'], description: 'What to do' },
+    { name: 'name', description: 'User name' },
+    { name: 'role', choices: ROLES, description: "Role for 'add' and 'role'" },
+  ],
+  flags: [forceFlag],
+  role: ({ args }) => (args.action as string).toLowerCase() === 'list' ? 'viewer' : 'admin',
+  confirm: (_ctx, { args }) => (args.action as string).toLowerCase() === 'rm' ? `Remove user ${args.name}?` : undefined,
+  run: async (ctx, { args }) => {
+    const action = (args.action as string).toLowerCase();
+    if (action === 'list') {
+      const current = ctx.users.current.name;
+      return table(
+        ['name', 'role', { key: 'password', format: v => v ? 'set' : '' }, { key: 'current', format: v => v ? '*' : '' }],
+        ctx.users.list().map(u => ({ name: u.name, role: u.role, password: ctx.users.hasPassword(u.name), current: u.name === current })),
+      );
+    }
+    const name = args.name as string | undefined;
+    if (!name) throw new CommandError(`Usage: user ${action} <name>${action === 'rm' || action === 'passwd' ? '' : ' <role>'}`);
+    switch (action) {
+      case 'add': {
+        const user = accessChange(() => ctx.users.add(name, parseRole(args.role as string | undefined)));
+        ctx.log('SYSTEM', 'success', `Added user ${user.name} (${user.role}).`);
+        break;
+      }
+      case 'rm': {
+        const user = accessChange(() => ctx.users.remove(name));
+        ctx.log('SYSTEM', 'warning', `Removed user ${user.name}.`);
+        break;
+      }
+      case 'role': {
+        const user = accessChange(() => ctx.users.setRole(name, parseRole(args.role as string | undefined)));
+        ctx.log('SYSTEM', 'success', `${user.name} is now ${user.role}.`);
+        break;
+      }
+      case 'passwd': {
+        if (!ctx.users.find(name)) throw new CommandError(`Unknown user: ${name}.`);
+        const password = await ctx.askPassword(`New password for ${name.toLowerCase()}:`);
+        if (password === null) throw new CommandError('Cancelled.');
+        const user = await ctx.users.setPassword(name, password).catch((err: unknown) => {
+          if (err instanceof AccessError) throw new CommandError(err.message);
+          throw err;
+        });
+        ctx.log('SYSTEM', 'success', `Password set for ${user.name}.`);
+        break;
+      }
+    }
+  },
+};
+
+export const auditCommand: CommandSpec = {
+  name: 'audit',
+  summary: 'Show the audit log of executed commands',
+  role: 'admin',
+  flags: [
+    { name: 'limit', alias: 'n', type: 'number', placeholder: 'n', description: 'Show the last n entries (default: 20)' },
+    { name: 'user', alias: 'u', type: 'string', placeholder: 'user', description: 'Only entries by this user' },
+  ],
+  run: (ctx, { flags }) => {
+    const user = (flags.user as string | undefined)?.toLowerCase();
+    const entries = ctx.audit.list().filter(e => !user || e.user === user);
+    const limit = (flags.limit as number | undefined) ?? 20;
+    return table(
+      [
+        { key: 'time', align: 'left', format: v => new Date(v as number).toISOString().replace('T', ' ').slice(0, 19) },
+        'user', 'role', 'outcome', 'command', 'line', 'error',
+      ],
+      entries.slice(-Math.max(1, limit)).map(e => ({
+        time: e.timestamp,
+        user: e.user,
+        role: e.role,
+        outcome: e.outcome,
+        command: e.command,
+        line: e.line,
+        error: e.error ?? '',
+      })),
+      {
+        empty: 'Audit log is empty.',
+        rowType: row => row.outcome === 'succeeded' ? 'success' : row.outcome === 'cancelled' ? 'warning' : 'error',
+      },
+    );
+  },
+};
@@ -0,0 +1,64 @@
+import type { Agent } from '../types';
+import { CommandError } from './errors';
+import { suggest } from './suggest';
+
+export function findAgent(agents: Agent[], ref: string): Agent | undefined {
+  const key = ref.toLowerCase();
+  return agents.find(a => a.id.toLowerCase() === key || a.name.toLowerCase() === key);
+}
+
+export function fleetTags(agents: Agent[]): string[] {
+  return [...new Set(agents.flatMap(a => a.tags ?? []))].sort();
+}
+
+export function fleetGroups(agents: Agent[]): string[] {
+  return [...new Set(agents.flatMap(a => a.group ? [a.group] : []))].sort();
+}
+
+// "tag:<x>" and "group:<x>" select every agent carrying that label.
+function resolveSelector(agents: Agent[], ref: string): Agent[] | undefined {
+  const match = /^(tag|group):(.*)$/i.exec(ref);
+  if (!match) return undefined;
+  const kind = match[1].toLowerCase();
+  const label = match[2].toLowerCase();
+  const selected = kind === 'tag'
+    ? agents.filter(a => a.tags?.includes(label))
+    : agents.filter(a => a.group === label);
+  if (selected.length === 0) {
+    const known = kind === 'tag' ? fleetTags(agents) : fleetGroups(agents);
+    const matches = suggest(label, known);
+    throw new CommandError(
+      `No agents ${kind === 'tag' ? 'tagged' : 'in group'} ${label}.`,
+      matches.length ? `Did you mean ${matches.map(m => `'${kind}:${m}'`).join(' or ')}?` : undefined,
+    );
+  }
+  return selected;
+}
+
+// Resolves agent names, ids and tag:/group: selectors; no refs (or "all")
+// means the whole fleet.
+export function resolveAgents(agents: Agent[], refs: string[]): Agent[] {
+  if (refs.length === 0 || refs.some(ref => ref.toLowerCase() === 'all')) return agents;
+
+  const resolved = refs.flatMap(ref => {
+    const selected = resolveSelector(agents, ref);
+    if (selected) return selected;
+    const agent = findAgent(agents, ref);
+    if (!agent) {
+      const matches = suggest(ref, agents.map(a => a.name));
+      throw new CommandError(
+        `Unknown agent: ${ref}.`,
+        matches.length ? `Did you mean ${matches.map(m => `'${m}'`).join(' or ')}?` : undefined,
+      );
+    }
+    return [agent];
+  });
+  return [...new Set(resolved)];
+}
+
+// Like resolveAgents, for arguments that must name exactly one agent.
+export function resolveAgent(agents: Agent[], ref: string): Agent {
+  const resolved = resolveAgents(agents, [ref]);
+  if (resolved.length !== 1) throw new CommandError(`${ref} matches ${resolved.length} agents; name a single agent.`);
+  return resolved[0];
+}
@@ -0,0 +1,99 @@
+import { RuleSyntaxError, describeRule, parseRule } from '../alerts';
+import type { Alert } from '../alerts';
+import { formatAge, formatDuration } from '../format';
+import { table } from '../output';
+import { CommandError } from './errors';
+import type { CommandContext, CommandSpec } from './types';
+
+function alertRow(alert: Alert, now: number) {
+  return {
+    id: alert.id,
+    severity: alert.severity,
+    state: alert.state,
+    acked: alert.acknowledged,
+    since: formatAge(now - (alert.state === 'firing' ? alert.firedAt : alert.resolvedAt ?? alert.firedAt)),
+    target: alert.target,
+    message: alert.message,
+  };
+}
+
+export const alertsCommand: CommandSpec = {
+  name: 'alerts',
+  summary: 'List firing alerts',
+  flags: [{ name: 'all', alias: 'a', type: 'boolean', description: 'Include resolved alerts' }],
+  run: (ctx, { flags }) => {
+    const alerts = flags.all ? ctx.alerts.list() : ctx.alerts.firing();
+    return table(
+      ['id', 'severity', 'state', { key: 'acked', format: v => v ? 'yes' : 'no' }, 'since', 'target', 'message'],
+      alerts.map(alert => alertRow(alert, ctx.clock.now())),
+      {
+        empty: flags.all ? 'No alerts recorded.' : 'No alerts firing.',
+        rowType: row => row.state === 'resolved' ? 'info' : row.severity === 'critical' ? 'error' : 'warning',
+      },
+    );
+  },
+};
+
+export const ackCommand: CommandSpec = {
+  name: 'ack',
+  summary: 'Acknowledge firing alerts',
+  args: [{ name: 'id', required: true, variadic: true, description: 'Alert ids, or "all" for every firing alert' }],
+  role: 'operator',
+  run: (ctx, { args }) => {
+    const ids = args.id as string[];
+    const targets = ids.some(id => id.toLowerCase() === 'all')
+      ? ctx.alerts.firing().filter(a => !a.acknowledged).map(a => a.id)
+      : ids;
+    for (const id of targets) {
+      const alert = ctx.alerts.acknowledge(id);
+      if (!alert) throw new CommandError(`Unknown alert: ${id}.`, `See 'alerts --all'.`);
+      ctx.log('SYSTEM', 'success', `Acknowledged ${alert.id}: ${alert.message}`);
+    }
+    if (targets.length === 0) ctx.log('SYSTEM', 'info', 'Nothing to acknowledge.');
+  },
+};
+
+export const alertCommand: CommandSpec = {
+  name: 'alert',
+  summary: 'Manage alert rules (add, rm, rules)',
+  args: [
+    { name: 'action', required: true, choices: ['add', 'rm', 'rules'], description: 'What to do with the rules' },
+    { name: 'rule', variadic: true, description: "Rule for 'add' (e.g. cpu > 90 for 30s on any severity critical), id for 'rm'" },
+  ],
+  role: ({ args }) => (args.action as string).toLowerCase() === 'rules' ? 'viewer' : 'admin',
+  run: (ctx, { args }) => {
+    const rest = args.rule as string[];
+    switch ((args.action as string).toLowerCase()) {
+      case 'add': {
+        if (rest.length === 0) throw new CommandError('Missing rule.', `Try 'alert add cpu > 90 for 30s'.`);
+        try {
+          const rule = ctx.alerts.addRule(parseRule(rest.join(' ')));
+          ctx.log('SYSTEM', 'success', `Added rule ${rule.id}: ${describeRule(rule)} [${rule.severity}]`);
+        } catch (err) {
+          if (err instanceof RuleSyntaxError) throw new CommandError(`Invalid rule: ${err.message}`);
+          throw err;
+        }
+        break;
+      }
+      case 'rm': {
+        if (rest.length !== 1) throw new CommandError('Usage: alert rm <rule-id>');
+        const rule = ctx.alerts.removeRule(rest[0]);
+        if (!rule) throw new CommandError(`Unknown rule: ${rest[0]}.`, `See 'alert rules'.`);
+        ctx.log('SYSTEM', 'success', `Removed rule ${rule.id}: ${describeRule(rule)}`);
+        break;
+      }
+      case 'rules': {
+        return table(
+          ['id', 'severity', 'cooldown', 'rule'],
+          ctx.alerts.listRules().map(rule => ({
+            id: rule.id,
+            severity: rule.severity,
+            cooldown: formatDuration(rule.cooldownMs),
+            rule: describeRule(rule),
+          })),
+          { empty: 'No alert rules defined.' },
+        );
+      }
+    }
+  },
+};
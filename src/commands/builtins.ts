@@ -0,0 +1,311 @@
+import { formatAge } from '../format';
+import { EMPTY_FILTER, EXPORT_FORMATS, LOG_SOURCES, LOG_TYPES, MAX_LOG_RETENTION, buildPattern, exportLogs, isLogRetention } from '../logs';
+import type { ExportFormat, LogFilter } from '../logs';
+import { PIPE_STAGES, table } from '../output';
+import type { Cell } from '../output';
+import type { Clock } from '../sim';
+import { auditCommand, forceFlag, suCommand, userCommand, whoamiCommand } from './access';
+import { resolveAgent, resolveAgents } from './agents';
+import { ackCommand, alertCommand, alertsCommand } from './alerts';
+import { CommandError } from './errors';
+import { agentCommand } from './fleet';
+import { deployCommand, jobsCommand, restartCommand, startCommand, stopCommand } from './lifecycle';
+import { aliasCommand, runCommand, scriptCommand, sleepCommand, unaliasCommand } from './macros';
+import { paneCommand, useCommand } from './panes';
+import { simCommand } from './sim';
+import { assignCommand, reassignCommand, taskCommand } from './tasks';
+import type { CommandSpec, FlagSpec, FlagValue } from './types';
+
+// Commands that pace their output await this so chained steps run in order.
+function delay(clock: Clock, ms: number): Promise<void> {
+  return new Promise(resolve => clock.setTimeout(resolve, ms));
+}
+
+export const statusCommand: CommandSpec = {
+  name: 'status',
+  aliases: ['ls'],
+  summary: 'Show agent statuses',
+  args: [{ name: 'agent', kind: 'agent', variadic: true, target: true, description: 'Agents to show (default: all)' }],
+  run: (ctx, { args }) => {
+    const targets = resolveAgents(ctx.agents, args.agent as string[]);
+    const percent = (value: Cell) => `${value}%`;
+    return table(
+      ['name', 'status', { key: 'cpu', format: percent }, { key: 'memory', label: 'mem', format: percent }, 'group', 'task'],
+      targets.map(agent => ({
+        name: agent.name,
+        status: agent.status,
+        cpu: Math.round(agent.cpu),
+        memory: Math.round(agent.memory),
+        group: agent.group ?? null,
+        task: agent.task,
+      })),
+      {
+        empty: 'No agents connected.',
+        rowType: row => row.status === 'error' ? 'error' : 'info',
+      },
+    );
+  },
+};
+
+export const scanCommand: CommandSpec = {
+  name: 'scan',
+  summary: 'Scan network for anomalies',
+  role: 'operator',
+  run: async (ctx) => {
+    ctx.log('SYSTEM', 'system', 'Scanning network for anomalies...');
+    await delay(ctx.clock, 2500);
+    ctx.log('SYSTEM', 'success', 'Scan complete. No threats detected.');
+  },
+};
+
+export const clearCommand: CommandSpec = {
+  name: 'clear',
+  aliases: ['cls'],
+  summary: 'Clear terminal output',
+  run: (ctx) => ctx.clearLogs(),
+};
+
+export const helpCommand: CommandSpec = {
+  name: 'help',
+  aliases: ['?'],
+  summary: 'List commands, or show usage for one',
+  args: [{ name: 'command', kind: 'command', description: 'Command to describe' }],
+  run: (ctx, { args }) => {
+    const { registry } = ctx;
+    let lines: string[];
+
+    if (args.command) {
+      const spec = registry.find(args.command as string);
+      if (!spec) throw new CommandError(`No help for unknown command: ${args.command}.`, `Type 'help' for available commands.`);
+      lines = [`usage: ${registry.usage(spec)}`, `  ${spec.summary}`];
+      if (spec.aliases?.length) lines.push(`  aliases: ${spec.aliases.join(', ')}`);
+      lines.push(`  requires: ${typeof spec.role === 'function' ? 'depends on action' : spec.role ?? 'viewer'}${spec.confirm ? ' (asks for confirmation)' : ''}`);
+      for (const arg of spec.args ?? []) {
+        if (arg.description) lines.push(`  ${arg.name.padEnd(16)} ${arg.description}`);
+      }
+      for (const flag of spec.flags ?? []) {
+        const names = flag.alias ? `-${flag.alias}, --${flag.name}` : `--${flag.name}`;
+        lines.push(`  ${names.padEnd(16)} ${flag.description ?? ''}`);
+      }
+    } else {
+      const commands = registry.list();
+      const width = Math.max(...commands.map(c => c.name.length));
+      lines = [
+        'Available commands:',
+        ...commands.map(c => `  ${c.name.padEnd(width)} - ${c.summary}`),
+        'Table output can be piped, e.g. status | where cpu>80 | sort -cpu',
+        ...PIPE_STAGES.map(s => `  | ${s.usage.padEnd(width + 20)} ${s.summary}`),
+        `Chain with ';' or '&&'. Type 'help <command>' for usage.`,
+      ];
+    }
+
+    lines.forEach(line => ctx.log('SYSTEM', 'info', line));
+  },
+};
+
+export const historyCommand: CommandSpec = {
+  name: 'history',
+  summary: 'Show numbered command history (re-run with !n or !!)',
+  args: [{ name: 'count', kind: 'number', description: 'Show only the last n entries' }],
+  flags: [{ name: 'clear', alias: 'c', type: 'boolean', description: 'Forget all saved history' }],
+  run: (ctx, { args, flags }) => {
+    if (flags.clear) {
+      ctx.history.clear();
+      ctx.log('SYSTEM', 'success', 'Command history cleared.');
+      return;
+    }
+    const entries = ctx.history.list();
+    const count = args.count === undefined ? entries.length : Math.max(0, Number(args.count));
+    const width = String(entries.length).length;
+    entries.slice(entries.length - count).forEach((entry, i, shown) => {
+      const n = entries.length - shown.length + i + 1;
+      ctx.log('SYSTEM', 'info', `  ${String(n).padStart(width)}  ${entry}`);
+    });
+  },
+};
+
+const typeFlag: FlagSpec = {
+  name: 'type',
+  alias: 't',
+  type: 'string',
+  placeholder: 'types',
+  description: `Only show these types (comma-separated: ${LOG_TYPES.join(', ')})`,
+};
+
+function parseTypes(value: FlagValue | undefined): LogFilter['types'] | undefined {
+  if (value === undefined) return undefined;
+  const types = String(value).split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+  const invalid = types.find(t => !LOG_TYPES.includes(t as LogFilter['types'][number]));
+  if (invalid) throw new CommandError(`Unknown log type: ${invalid}.`, `Expected one of ${LOG_TYPES.join(', ')}.`);
+  return types as LogFilter['types'];
+}
+
+export const grepCommand: CommandSpec = {
+  name: 'grep',
+  summary: 'Filter terminal output by text or pattern',
+  args: [{ name: 'pattern', description: 'Text to match in log messages (omit to clear)' }],
+  flags: [
+    { name: 'regex', alias: 'E', type: 'boolean', description: 'Treat the pattern as a regular expression' },
+    { name: 'case', alias: 's', type: 'boolean', description: 'Match case' },
+    typeFlag,
+    { name: 'clear', alias: 'c', type: 'boolean', description: 'Remove every log filter' },
+  ],
+  run: (ctx, { args, flags }) => {
+    if (flags.clear) {
+      ctx.setLogFilter(() => EMPTY_FILTER);
+      ctx.log('SYSTEM', 'info', 'Log filters cleared.');
+      return;
+    }
+    const query = (args.pattern as string | undefined) ?? '';
+    const regex = Boolean(flags.regex);
+    const caseSensitive = Boolean(flags.case);
+    try {
+      buildPattern(query, regex, caseSensitive);
+    } catch (err) {
+      throw new CommandError(`Invalid pattern: ${(err as Error).message}`);
+    }
+    const types = parseTypes(flags.type);
+
+    ctx.setLogFilter(filter => ({ ...filter, query, regex, caseSensitive, types: types ?? filter.types }));
+    ctx.log('SYSTEM', 'info', query ? `Filtering output by ${regex ? `/${query}/` : `'${query}'`}.` : 'Text filter cleared.');
+  },
+};
+
+export const logsCommand: CommandSpec = {
+  name: 'logs',
+  summary: "Show only one agent's logs",
+  args: [{ name: 'agent', kind: 'agent', description: 'Agent to show (omit or "all" for every agent)' }],
+  flags: [typeFlag],
+  run: (ctx, { args, flags }) => {
+    const ref = args.agent as string | undefined;
+    let agent: string | null = null;
+    if (ref && ref.toLowerCase() !== 'all') {
+      agent = LOG_SOURCES.includes(ref.toUpperCase())
+        ? ref.toUpperCase()
+        : resolveAgent(ctx.agents, ref).name;
+    }
+    const types = parseTypes(flags.type);
+
+    ctx.setLogFilter(filter => ({ ...filter, agent, followSelection: false, types: types ?? filter.types }));
+    ctx.log('SYSTEM', 'info', agent ? `Showing logs for ${agent}.` : 'Showing logs for all agents.');
+  },
+};
+
+export const retentionCommand: CommandSpec = {
+  name: 'retention',
+  summary: 'Show or set how many log lines are kept',
+  args: [{ name: 'lines', kind: 'number', description: 'New retention limit (omit to show the current one)' }],
+  role: ({ args }) => args.lines === undefined ? 'viewer' : 'operator',
+  run: (ctx, { args }) => {
+    if (args.lines === undefined) {
+      ctx.log('SYSTEM', 'info', `Log retention: ${ctx.logRetention.toLocaleString('en-US')} lines.`);
+      return;
+    }
+    const lines = Number(args.lines);
+    if (!isLogRetention(lines)) {
+      throw new CommandError(`Retention must be a whole number of lines from 1 to ${MAX_LOG_RETENTION.toLocaleString('en-US')}`);
+    }
+    ctx.setLogRetention(lines);
+    ctx.log('SYSTEM', 'success', `Log retention set to ${lines.toLocaleString('en-US')} lines.`);
+  },
+};
+
+export const exportCommand: CommandSpec = {
+  name: 'export',
+  summary: 'Download the terminal transcript',
+  args: [{ name: 'format', description: `One of ${EXPORT_FORMATS.join(', ')} (default: text)` }],
+  flags: [{ name: 'all', alias: 'a', type: 'boolean', description: 'Export the whole buffer, ignoring log filters' }],
+  run: (ctx, { args, flags }) => {
+    const format = ((args.format as string | undefined) ?? 'text').toLowerCase();
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new CommandError(`Unknown export format: ${format}.`, `Expected one of ${EXPORT_FORMATS.join(', ')}.`);
+    }
+    const logs = ctx.getLogs(flags.all ? 'all' : 'visible');
+    const file = exportLogs(logs, format as ExportFormat);
+    ctx.download(file);
+    ctx.log('SYSTEM', 'success', `Exported ${logs.length} line(s) to ${file.filename}.`);
+  },
+};
+
+export const heartbeatCommand: CommandSpec = {
+  name: 'heartbeat',
+  summary: 'Show or set the heartbeat timeout before agents are marked offline',
+  args: [{ name: 'seconds', kind: 'number', description: 'New timeout in seconds (omit to show the current one)' }],
+  role: ({ args }) => args.seconds === undefined ? 'viewer' : 'admin',
+  run: (ctx, { args }) => {
+    if (args.seconds === undefined) {
+      ctx.log('SYSTEM', 'info', `Heartbeat timeout: ${ctx.liveness.timeout / 1000}s (late after ${ctx.liveness.timeout / 2000}s).`);
+      return;
+    }
+    const seconds = Number(args.seconds);
+    if (!(seconds > 0)) throw new CommandError('Heartbeat timeout must be a positive number of seconds');
+    ctx.liveness.timeout = seconds * 1000;
+    ctx.log('SYSTEM', 'success', `Heartbeat timeout set to ${seconds}s.`);
+  },
+};
+
+export const sessionCommand: CommandSpec = {
+  name: 'session',
+  summary: 'Save, inspect or reset the persisted dashboard session',
+  args: [{ name: 'action', choices: ['info', 'save', 'reset'], description: 'What to do (default: info)' }],
+  flags: [forceFlag],
+  role: ({ args }) => (args.action as string | undefined)?.toLowerCase() === 'reset' ? 'admin' : 'viewer',
+  confirm: (_ctx, { args }) => (args.action as string | undefined)?.toLowerCase() === 'reset'
+    ? 'Discard the saved session and pane layouts, then reboot?'
+    : undefined,
+  run: (ctx, { args }) => {
+    switch ((args.action as string | undefined)?.toLowerCase() ?? 'info') {
+      case 'info': {
+        const savedAt = ctx.session.savedAt();
+        ctx.log('SYSTEM', 'info', savedAt ? `Session last saved ${formatAge(Date.now() - savedAt)}.` : 'No saved session.');
+        break;
+      }
+      case 'save':
+        if (!ctx.session.save()) throw new CommandError('Could not save the session.', 'Browser storage may be full or disabled.');
+        ctx.log('SYSTEM', 'success', 'Session saved.');
+        break;
+      case 'reset':
+        ctx.log('SYSTEM', 'warning', 'Clearing saved session and pane layouts, then rebooting...');
+        ctx.session.reset();
+        break;
+    }
+  },
+};
+
+export const builtinCommands: CommandSpec[] = [
+  statusCommand,
+  useCommand,
+  agentCommand,
+  deployCommand,
+  startCommand,
+  stopCommand,
+  restartCommand,
+  jobsCommand,
+  taskCommand,
+  assignCommand,
+  reassignCommand,
+  scanCommand,
+  helpCommand,
+  clearCommand,
+  historyCommand,
+  grepCommand,
+  logsCommand,
+  retentionCommand,
+  exportCommand,
+  heartbeatCommand,
+  sessionCommand,
+  paneCommand,
+  whoamiCommand,
+  suCommand,
+  userCommand,
+  auditCommand,
+  aliasCommand,
+  unaliasCommand,
+  scriptCommand,
+  runCommand,
+  sleepCommand,
+  alertsCommand,
+  ackCommand,
+  alertCommand,
+  simCommand,
+];
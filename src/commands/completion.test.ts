@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { complete } from './completion';
+import { createDefaultRegistry } from './index';
+import type { CompletionSource } from './completion';
+
+const source: CompletionSource = {
+  registry: createDefaultRegistry(),
+  agentNames: ['NEXUS-7', 'CIPHER-9'],
+  aliases: { dc: 'deploy --canary 1', st: 'status' },
+};
+
+function values(line: string) {
+  return complete(line, source).items.map(item => item.value);
+}
+
+describe('complete', () => {
+  it('offers commands and user aliases for the first word', () => {
+    expect(values('dep')).toContain('deploy');
+    expect(values('d')).toContain('dc');
+    expect(values('s')).toEqual(expect.arrayContaining(['status', 'st']));
+  });
+
+  it('completes arguments and flags of the command being typed', () => {
+    expect(values('deploy N')).toEqual(['NEXUS-7']);
+    expect(values('deploy --v')).toEqual(['--version']);
+  });
+
+  it('starts over after a chain separator', () => {
+    const result = complete('status && dep', source);
+    expect(result).toMatchObject({ start: 10, word: 'dep' });
+    expect(result.items.map(item => item.value)).toContain('deploy');
+    expect(values('clear; deploy C')).toEqual(['CIPHER-9']);
+  });
+
+  it('offers pipe stages after |', () => {
+    const result = complete('status | so', source);
+    expect(result).toMatchObject({ start: 9, word: 'so' });
+    expect(result.items.map(item => item.value)).toEqual(['sort']);
+  });
+
+  it('ignores separators inside quotes', () => {
+    expect(values('grep "a | b; c" && st')).toEqual(expect.arrayContaining(['status', 'st']));
+    expect(values('grep "a | so')).not.toContain('sort');
+  });
+
+  it('completes alias arguments as in the definition', () => {
+    expect(values('dc C')).toEqual(['CIPHER-9']);
+  });
+});
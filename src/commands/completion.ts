@@ -0,0 +1,158 @@
+import { PIPE_STAGES } from '../output';
+import type { CommandRegistry } from './registry';
+import type { ArgSpec, CommandSpec } from './types';
+
+export interface Completion {
+  value: string;
+  description?: string;
+}
+
+export interface CompletionResult {
+  start: number;
+  word: string;
+  items: Completion[];
+}
+
+export interface CompletionSource {
+  registry: CommandRegistry;
+  agentNames: string[];
+  // User aliases by name, as defined with 'alias'.
+  aliases?: Record<string, string>;
+}
+
+function commandItems(registry: CommandRegistry): Completion[] {
+  return registry.list().flatMap(spec => [
+    { value: spec.name, description: spec.summary },
+    ...(spec.aliases ?? []).map(alias => ({ value: alias, description: `alias for ${spec.name}` })),
+  ]);
+}
+
+function aliasItems(aliases: Record<string, string> = {}): Completion[] {
+  return Object.entries(aliases).map(([name, body]) => ({ value: name, description: `alias for ${body}` }));
+}
+
+// Where the step or pipe stage being typed starts: just after the last
+// unquoted ';', '&&' or '|', the same separators splitChain and
+// splitPipeline honour.
+function currentSegment(line: string): { offset: number; pipe: boolean } {
+  let offset = 0;
+  let pipe = false;
+  let quote: '"' | "'" | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === '\\' && quote === '"') i++;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '\\') {
+      i++;
+    } else if (ch === ';' || ch === '|') {
+      offset = i + 1;
+      pipe = ch === '|';
+    } else if (ch === '&' && line[i + 1] === '&') {
+      offset = i + 2;
+      pipe = false;
+      i++;
+    }
+  }
+  return { offset, pipe };
+}
+
+function argItems(arg: ArgSpec | undefined, source: CompletionSource): Completion[] {
+  if (arg?.choices) return arg.choices.map(value => ({ value, description: arg.description }));
+  switch (arg?.kind) {
+    case 'agent':
+      return [
+        ...source.agentNames.map(name => ({ value: name, description: arg.description })),
+        { value: 'all', description: 'Every agent in the fleet' },
+      ];
+    case 'command':
+      return commandItems(source.registry);
+    default:
+      return [];
+  }
+}
+
+// Which positional argument the word being typed falls on, skipping flags and
+// the values of non-boolean flags.
+function currentArg(spec: CommandSpec, previous: string[]): ArgSpec | undefined {
+  let position = 0;
+  for (let i = 0; i < previous.length; i++) {
+    const token = previous[i];
+    if (token.startsWith('-') && token.length > 1) {
+      const long = token.startsWith('--');
+      const key = long ? token.slice(2) : token.slice(1);
+      const flag = spec.flags?.find(f => (long ? f.name === key : f.alias === key));
+      if (flag && flag.type !== 'boolean') i++;
+      continue;
+    }
+    position++;
+  }
+  const args = spec.args ?? [];
+  return args[position] ?? args.find(arg => arg.variadic && args.indexOf(arg) <= position);
+}
+
+// Completes the last word of `line`, within the last step of a chain or
+// stage of a pipeline. Quoting is not interpreted inside a step; every
+// completable value is a single bare word.
+export function complete(line: string, source: CompletionSource): CompletionResult {
+  const { offset, pipe } = currentSegment(line);
+  const start = offset + line.slice(offset).search(/\S*$/);
+  const word = line.slice(start);
+  const previous = line.slice(offset, start).trim().split(/\s+/).filter(Boolean);
+
+  // Arguments after an alias complete as they would in its definition.
+  const alias = previous.length > 0 && !pipe ? source.aliases?.[previous[0].toLowerCase()] : undefined;
+  if (alias !== undefined) {
+    const rest = line.slice(offset).replace(/^\s*\S+/, '');
+    const expanded = complete(`${alias}${rest}`, { ...source, aliases: undefined });
+    return { start, word, items: expanded.items };
+  }
+
+  let items: Completion[];
+  if (pipe) {
+    // Stage arguments are column names, which depend on the output.
+    items = previous.length === 0 ? PIPE_STAGES.map(stage => ({ value: stage.name, description: stage.summary })) : [];
+  } else if (previous.length === 0) {
+    items = [...commandItems(source.registry), ...aliasItems(source.aliases)];
+  } else {
+    const spec = source.registry.find(previous[0]);
+    if (!spec) {
+      items = [];
+    } else if (word.startsWith('-')) {
+      items = (spec.flags ?? []).map(flag => ({ value: `--${flag.name}`, description: flag.description }));
+    } else {
+      const prev = previous[previous.length - 1];
+      const pendingFlag = prev.startsWith('-') && spec.flags?.find(f =>
+        prev.startsWith('--') ? `--${f.name}` === prev : `-${f.alias}` === prev);
+      items = pendingFlag && pendingFlag.type !== 'boolean'
+        ? []
+        : argItems(currentArg(spec, previous.slice(1)), source);
+    }
+  }
+
+  const needle = word.toLowerCase();
+  const seen = new Set<string>();
+  return {
+    start,
+    word,
+    items: items.filter(item => {
+      const key = item.value.toLowerCase();
+      if (!key.startsWith(needle) || seen.has(key) || previous.slice(1).some(p => p.toLowerCase() === key)) return false;
+      seen.add(key);
+      return true;
+    }),
+  };
+}
+
+export function commonPrefix(values: string[]): string {
+  if (values.length === 0) return '';
+  let prefix = values[0];
+  for (const value of values.slice(1)) {
+    let i = 0;
+    while (i < prefix.length && i < value.length && prefix[i].toLowerCase() === value[i].toLowerCase()) i++;
+    prefix = prefix.slice(0, i);
+  }
+  return prefix;
+}
@@ -0,0 +1,6 @@
+export class CommandError extends Error {
+  constructor(message: string, public hint?: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
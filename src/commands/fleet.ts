@@ -0,0 +1,119 @@
+import { FleetError } from '../fleet';
+import { table } from '../output';
+import type { Agent } from '../types';
+import { forceFlag } from './access';
+import { fleetGroups, resolveAgent, resolveAgents } from './agents';
+import { CommandError } from './errors';
+import type { CommandContext, CommandSpec } from './types';
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(',').map(v => v.trim()).filter(Boolean) : [];
+}
+
+async function fleetChange<T>(change: Promise<T>): Promise<T> {
+  try {
+    return await change;
+  } catch (err) {
+    if (err instanceof FleetError) throw new CommandError(err.message);
+    throw err;
+  }
+}
+
+function requireArgs(rest: string[], count: number, usage: string) {
+  if (rest.length < count) throw new CommandError(`Usage: agent ${usage}`);
+}
+
+// Grouped agents first, in group order, then the ungrouped ones.
+function listAgents(ctx: CommandContext) {
+  const groups = fleetGroups(ctx.agents);
+  const rank = (agent: Agent) => agent.group ? groups.indexOf(agent.group) : groups.length;
+  return table(
+    ['group', 'name', 'id', 'status', 'tags'],
+    [...ctx.agents].sort((a, b) => rank(a) - rank(b)).map(agent => ({
+      group: agent.group ?? null,
+      name: agent.name,
+      id: agent.id,
+      status: agent.status,
+      tags: agent.tags?.join(',') ?? '',
+    })),
+    { empty: 'No agents connected.' },
+  );
+}
+
+export const agentCommand: CommandSpec = {
+  name: 'agent',
+  summary: 'Manage the fleet (add, remove, rename, tag, untag, group, list)',
+  args: [
+    { name: 'action', required: true, choices: ['add', 'remove', 'rename', 'tag', 'untag', 'group', 'list'], description: 'What to change' },
+    { name: 'target', kind: 'agent', variadic: true, description: 'Agent name(s) or selector, followed by the new name, tags or group' },
+  ],
+  flags: [
+    { name: 'id', type: 'string', placeholder: 'id', description: "Id for 'add' (default: next agent-N)" },
+    { name: 'group', alias: 'g', type: 'string', placeholder: 'group', description: "Group for 'add', e.g. a region" },
+    { name: 'tags', alias: 't', type: 'string', placeholder: 'a,b', description: "Comma-separated tags for 'add', e.g. a role" },
+    forceFlag,
+  ],
+  role: ({ args }) => (args.action as string).toLowerCase() === 'list' ? 'viewer' : 'admin',
+  confirm: (ctx, { args }) => {
+    if ((args.action as string).toLowerCase() !== 'remove') return undefined;
+    const targets = resolveAgents(ctx.agents, args.target as string[]);
+    return `Remove ${targets.map(a => a.name).join(', ')} from the fleet?`;
+  },
+  run: async (ctx, { args, flags }) => {
+    const rest = args.target as string[];
+    switch ((args.action as string).toLowerCase()) {
+      case 'add': {
+        requireArgs(rest, 1, 'add <name> [--group g] [--tags a,b]');
+        if (rest.length > 1) throw new CommandError('Agent names cannot contain spaces.');
+        const agent = await fleetChange(ctx.fleet.add(ctx.agents, {
+          name: rest[0],
+          id: flags.id as string | undefined,
+          group: flags.group as string | undefined,
+          tags: splitList(flags.tags as string | undefined),
+        }));
+        ctx.log('SYSTEM', 'success', `Added ${agent.name} (${agent.id})${agent.group ? ` to ${agent.group}` : ''}.`);
+        break;
+      }
+      case 'remove': {
+        requireArgs(rest, 1, 'remove <agent...>');
+        for (const agent of resolveAgents(ctx.agents, rest)) {
+          await fleetChange(ctx.fleet.remove(agent));
+          ctx.log('SYSTEM', 'warning', `Removed ${agent.name} (${agent.id}).`);
+        }
+        break;
+      }
+      case 'rename': {
+        if (rest.length !== 2) throw new CommandError('Usage: agent rename <agent> <new-name>');
+        const agent = resolveAgent(ctx.agents, rest[0]);
+        const name = await fleetChange(ctx.fleet.rename(ctx.agents, agent, rest[1]));
+        ctx.log('SYSTEM', 'success', `Renamed ${agent.name} to ${name}.`);
+        break;
+      }
+      case 'tag':
+      case 'untag': {
+        const action = (args.action as string).toLowerCase();
+        requireArgs(rest, 2, `${action} <agent> <tag...>`);
+        const targets = resolveAgents(ctx.agents, [rest[0]]);
+        const labels = rest.slice(1).map(tag => tag.toLowerCase());
+        for (const agent of targets) {
+          const current = agent.tags ?? [];
+          const next = action === 'tag' ? [...current, ...labels] : current.filter(tag => !labels.includes(tag));
+          const tags = await fleetChange(ctx.fleet.setTags(agent, next));
+          ctx.log('SYSTEM', 'success', `${agent.name} tags: ${tags.length ? tags.join(', ') : '(none)'}`);
+        }
+        break;
+      }
+      case 'group': {
+        if (rest.length !== 2) throw new CommandError('Usage: agent group <agent> <group|none>');
+        const group = rest[1].toLowerCase() === 'none' ? null : rest[1];
+        for (const agent of resolveAgents(ctx.agents, [rest[0]])) {
+          const value = await fleetChange(ctx.fleet.setGroup(agent, group));
+          ctx.log('SYSTEM', 'success', value ? `${agent.name} moved to ${value}.` : `${agent.name} removed from its group.`);
+        }
+        break;
+      }
+      case 'list':
+        return listAgents(ctx);
+    }
+  },
+};
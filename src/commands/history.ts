@@ -0,0 +1,79 @@
+import { CommandError } from './errors';
+
+const STORAGE_KEY = 'clawbot.history';
+
+export interface HistoryStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+function defaultStorage(): HistoryStorage | undefined {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+// Command history with bash-style erasedups: re-running a command moves it to
+// the end instead of adding a second copy. Entries are numbered from 1.
+export class CommandHistory {
+  private entries: string[] = [];
+
+  constructor(private limit = 500, private storage: HistoryStorage | undefined = defaultStorage()) {
+    try {
+      const saved = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? '[]');
+      if (Array.isArray(saved)) this.entries = saved.filter((e): e is string => typeof e === 'string').slice(-limit);
+    } catch {
+      this.entries = [];
+    }
+  }
+
+  list(): string[] {
+    return [...this.entries];
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  add(command: string) {
+    const entry = command.trim();
+    if (!entry) return;
+    this.entries = [...this.entries.filter(e => e !== entry), entry].slice(-this.limit);
+    this.save();
+  }
+
+  clear() {
+    this.entries = [];
+    this.save();
+  }
+
+  // Index of the newest entry before `before` containing `query`, or -1.
+  search(query: string, before = this.entries.length): number {
+    const needle = query.toLowerCase();
+    for (let i = Math.min(before, this.entries.length) - 1; i >= 0; i--) {
+      if (this.entries[i].toLowerCase().includes(needle)) return i;
+    }
+    return -1;
+  }
+
+  // Expands "!!", "!n" and "!-n" words against the current history.
+  expand(line: string): string {
+    return line.replace(/(^|\s)!(!|-?\d+)(?=\s|$)/g, (_, lead: string, ref: string) => {
+      const n = ref === '!' ? -1 : Number(ref);
+      const index = n < 0 ? this.entries.length + n : n - 1;
+      const entry = this.entries[index];
+      if (entry === undefined || n === 0) throw new CommandError(`!${ref}: event not found`);
+      return lead + entry;
+    });
+  }
+
+  private save() {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch {
+      // Quota or privacy-mode failures only cost persistence, not history.
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { builtinCommands } from './builtins';
+import { CommandRegistry } from './registry';
+
+export { fleetGroups, fleetTags, resolveAgents } from './agents';
+export { complete, commonPrefix } from './completion';
+export type { Completion, CompletionResult } from './completion';
+export { CommandError } from './errors';
+export { CommandHistory } from './history';
+export { CommandRegistry, requiredRole } from './registry';
+export { expandAlias, runCommandLine } from './script';
+export { quoteArg, splitChain, tokenize } from './tokenizer';
+export type { ChainStep } from './tokenizer';
+export type { ArgSpec, CommandContext, CommandSpec, FlagSpec, PaneControls, ParsedArgs, RunOptions, SessionControls } from './types';
+
+export function createDefaultRegistry(): CommandRegistry {
+  return new CommandRegistry().register(...builtinCommands);
+}
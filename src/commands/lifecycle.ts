@@ -0,0 +1,138 @@
+import type { Job } from '../jobs';
+import { table } from '../output';
+import type { LifecycleOperation } from '../sources';
+import type { Agent } from '../types';
+import { forceFlag } from './access';
+import { resolveAgent, resolveAgents } from './agents';
+import { CommandError } from './errors';
+import type { CommandContext, CommandSpec, ParsedArgs } from './types';
+
+function describeTargets(targets: { name: string }[], total: number): string {
+  return targets.length === total ? 'all agents' : targets.map(a => a.name).join(', ');
+}
+
+// Checked before asking for confirmation as well as before submitting, so
+// an unsupported source fails fast instead of leaving failed jobs behind.
+function requireJobs(ctx: CommandContext) {
+  const unsupported = ctx.jobs.unsupported();
+  if (unsupported) throw new CommandError(`${unsupported}.`);
+}
+
+async function runJobs(ctx: CommandContext, operation: LifecycleOperation, targets: Agent[], version?: string): Promise<Job[]> {
+  requireJobs(ctx);
+  const jobs = await Promise.all(targets.map(agent => ctx.jobs.submit(operation, agent, version)));
+  const failed = jobs.filter(job => job.status === 'failed');
+  if (failed.length > 0) {
+    throw new CommandError(
+      `${operation} failed on ${failed.length} of ${jobs.length} agent(s): ${failed.map(j => j.agentName).join(', ')}.`,
+      `See 'jobs' for details.`,
+    );
+  }
+  return jobs;
+}
+
+function lifecycleCommand(operation: 'start' | 'stop' | 'restart', summary: string, required: boolean, verb: string): CommandSpec {
+  return {
+    name: operation,
+    summary,
+    args: [{
+      name: 'agent',
+      kind: 'agent',
+      variadic: true,
+      required,
+      target: true,
+      description: required ? `Agents to ${operation} ("all" for the fleet)` : `Agents to ${operation} (default: all)`,
+    }],
+    role: 'operator',
+    // Starting an agent never interrupts work, so only stop and restart ask.
+    ...(operation === 'start' ? {} : {
+      flags: [forceFlag],
+      confirm: (ctx: CommandContext, { args }: ParsedArgs) => {
+        requireJobs(ctx);
+        const targets = resolveAgents(ctx.agents, args.agent as string[]);
+        return `${operation === 'stop' ? 'Stop' : 'Restart'} ${describeTargets(targets, ctx.agents.length)} (${targets.length})?`;
+      },
+    }),
+    run: async (ctx, { args }) => {
+      const targets = resolveAgents(ctx.agents, args.agent as string[]);
+      const scope = describeTargets(targets, ctx.agents.length);
+      ctx.log('SYSTEM', operation === 'start' ? 'system' : 'warning', `${verb} ${scope}...`);
+      await runJobs(ctx, operation, targets);
+      ctx.log('SYSTEM', 'success', `${targets.length} agent(s) ${operation === 'stop' ? 'stopped' : `${operation}ed`} successfully.`);
+    },
+  };
+}
+
+export const startCommand = lifecycleCommand('start', 'Start stopped agents', true, 'Starting');
+export const stopCommand = lifecycleCommand('stop', 'Stop agents', true, 'Stopping');
+export const restartCommand = lifecycleCommand('restart', 'Restart agents', false, 'Restarting');
+
+export const deployCommand: CommandSpec = {
+  name: 'deploy',
+  summary: 'Deploy updates to agents',
+  args: [{ name: 'agent', kind: 'agent', variadic: true, target: true, description: 'Agents to deploy to (default: all)' }],
+  flags: [
+    { name: 'canary', alias: 'c', type: 'number', placeholder: 'n', description: 'Deploy to the first n targets and stop if any fail' },
+    { name: 'version', alias: 'v', type: 'string', placeholder: 'tag', description: 'Version to deploy (default: latest)' },
+    forceFlag,
+  ],
+  role: 'operator',
+  confirm: (ctx, { args, flags }) => {
+    requireJobs(ctx);
+    const targets = resolveAgents(ctx.agents, args.agent as string[]);
+    return `Deploy ${(flags.version as string | undefined) ?? 'latest'} to ${describeTargets(targets, ctx.agents.length)} (${targets.length})?`;
+  },
+  run: async (ctx, { args, flags }) => {
+    const targets = resolveAgents(ctx.agents, args.agent as string[]);
+    const version = (flags.version as string | undefined) ?? 'latest';
+    const canary = flags.canary as number | undefined;
+    if (canary !== undefined && (!Number.isInteger(canary) || canary < 1)) {
+      throw new CommandError('--canary expects a positive whole number of agents');
+    }
+
+    ctx.log('SYSTEM', 'system', `Initiating deployment sequence (${version}) to ${describeTargets(targets, ctx.agents.length)}...`);
+    let remaining = targets;
+    if (canary !== undefined && canary < targets.length) {
+      const stage = targets.slice(0, canary);
+      ctx.log('SYSTEM', 'info', `Canary stage: ${stage.map(a => a.name).join(', ')}`);
+      try {
+        await runJobs(ctx, 'deploy', stage, version);
+      } catch (err) {
+        if (err instanceof CommandError) throw new CommandError(`Canary failed, rollout aborted. ${err.message}`, err.hint);
+        throw err;
+      }
+      remaining = targets.slice(canary);
+      ctx.log('SYSTEM', 'info', `Canary healthy. Rolling out to ${remaining.length} remaining agent(s)...`);
+    }
+    await runJobs(ctx, 'deploy', remaining, version);
+    ctx.log('SYSTEM', 'success', `Deployment successful. ${targets.length} agent(s) updated to ${version}.`);
+  },
+};
+
+export const jobsCommand: CommandSpec = {
+  name: 'jobs',
+  summary: 'List recent lifecycle jobs',
+  args: [{ name: 'agent', kind: 'agent', description: 'Only show jobs for this agent' }],
+  flags: [{ name: 'limit', alias: 'n', type: 'number', placeholder: 'n', description: 'How many jobs to show (default: 15)' }],
+  run: (ctx, { args, flags }) => {
+    const ref = args.agent as string | undefined;
+    const agent = ref ? resolveAgent(ctx.agents, ref) : undefined;
+    const limit = (flags.limit as number | undefined) ?? 15;
+    const jobs = ctx.jobs.list().filter(job => !agent || job.agentId === agent.id).slice(-limit);
+    return table(
+      ['id', 'operation', 'agent', 'status', { key: 'progress', format: v => `${v}%` }, 'detail'],
+      jobs.map(job => ({
+        id: job.id,
+        operation: job.operation,
+        agent: job.agentName,
+        status: job.status,
+        progress: job.progress,
+        detail: job.error ?? job.message ?? '',
+      })),
+      {
+        empty: 'No jobs yet.',
+        rowType: row => row.status === 'failed' ? 'error' : row.status === 'succeeded' ? 'success' : 'info',
+      },
+    );
+  },
+};
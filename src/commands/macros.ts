@@ -0,0 +1,126 @@
+import { formatDuration, parseDuration } from '../format';
+import { MacroError } from '../macros';
+import { CommandError } from './errors';
+import type { CommandContext, CommandSpec } from './types';
+
+const MAX_SLEEP = 3600000;
+
+function define(ctx: CommandContext, kind: 'alias' | 'script', name: string, body: string) {
+  if (ctx.registry.find(name)) {
+    throw new CommandError(`'${name}' is already a command.`, `Pick a name that 'help' does not list.`);
+  }
+  try {
+    if (kind === 'alias') ctx.macros.setAlias(name, body);
+    else ctx.macros.setScript(name, body);
+  } catch (err) {
+    if (err instanceof MacroError) throw new CommandError(err.message);
+    throw err;
+  }
+}
+
+function listDefinitions(ctx: CommandContext, kind: 'alias' | 'script') {
+  const entries = Object.entries(ctx.macros.toJSON()[kind === 'alias' ? 'aliases' : 'scripts']);
+  if (entries.length === 0) {
+    ctx.log('SYSTEM', 'info', kind === 'alias' ? 'No aliases defined.' : 'No scripts saved.');
+    return;
+  }
+  entries.forEach(([name, body]) => ctx.log('SYSTEM', 'info', kind === 'alias' ? `alias ${name}='${body}'` : `${name}: ${body}`));
+}
+
+export const aliasCommand: CommandSpec = {
+  name: 'alias',
+  summary: "Define or list aliases (alias name='command; command')",
+  args: [{ name: 'definition', variadic: true, description: "name='command line', or a name to show" }],
+  run: (ctx, { args }) => {
+    const words = args.definition as string[];
+    if (words.length === 0) {
+      listDefinitions(ctx, 'alias');
+      return;
+    }
+    const text = words.join(' ');
+    const eq = text.indexOf('=');
+    if (eq === -1) {
+      const body = ctx.macros.alias(text);
+      if (!body) throw new CommandError(`No alias named ${text}.`);
+      ctx.log('SYSTEM', 'info', `alias ${text.toLowerCase()}='${body}'`);
+      return;
+    }
+    const name = text.slice(0, eq).trim();
+    define(ctx, 'alias', name, text.slice(eq + 1));
+    ctx.log('SYSTEM', 'success', `Alias ${name.toLowerCase()} defined.`);
+  },
+};
+
+export const unaliasCommand: CommandSpec = {
+  name: 'unalias',
+  summary: 'Remove aliases',
+  args: [{ name: 'name', required: true, variadic: true, description: 'Aliases to remove' }],
+  run: (ctx, { args }) => {
+    for (const name of args.name as string[]) {
+      if (!ctx.macros.removeAlias(name)) throw new CommandError(`No alias named ${name}.`);
+      ctx.log('SYSTEM', 'success', `Alias ${name.toLowerCase()} removed.`);
+    }
+  },
+};
+
+export const scriptCommand: CommandSpec = {
+  name: 'script',
+  summary: 'Save, show, remove or list named scripts',
+  args: [
+    { name: 'action', required: true, choices: ['save', 'show', 'rm', 'list'], description: 'What to do with scripts' },
+    { name: 'name', description: 'Script name' },
+    { name: 'body', variadic: true, description: "Command line for 'save', e.g. 'scan; sleep 2; status'" },
+  ],
+  role: ({ args }) => ['save', 'rm'].includes((args.action as string).toLowerCase()) ? 'operator' : 'viewer',
+  run: (ctx, { args }) => {
+    const name = args.name as string | undefined;
+    const action = (args.action as string).toLowerCase();
+    if (action === 'list') {
+      listDefinitions(ctx, 'script');
+      return;
+    }
+    if (!name) throw new CommandError(`Usage: script ${action} <name>${action === 'save' ? ' <body...>' : ''}`);
+    switch (action) {
+      case 'save':
+        define(ctx, 'script', name, (args.body as string[]).join(' '));
+        ctx.log('SYSTEM', 'success', `Script ${name.toLowerCase()} saved. Run it with 'run ${name.toLowerCase()}'.`);
+        break;
+      case 'show': {
+        const body = ctx.macros.script(name);
+        if (!body) throw new CommandError(`No script named ${name}.`, `See 'script list'.`);
+        ctx.log('SYSTEM', 'info', `${name.toLowerCase()}: ${body}`);
+        break;
+      }
+      case 'rm':
+        if (!ctx.macros.removeScript(name)) throw new CommandError(`No script named ${name}.`, `See 'script list'.`);
+        ctx.log('SYSTEM', 'success', `Script ${name.toLowerCase()} removed.`);
+        break;
+    }
+  },
+};
+
+export const runCommand: CommandSpec = {
+  name: 'run',
+  summary: 'Run a saved script step by step',
+  args: [{ name: 'script', required: true, description: 'Script name' }],
+  run: async (ctx, { args }) => {
+    const name = (args.script as string).toLowerCase();
+    const body = ctx.macros.script(name);
+    if (!body) throw new CommandError(`No script named ${name}.`, `See 'script list'.`);
+    if (!await ctx.execute(body, { label: name })) throw new CommandError(`Script ${name} failed.`);
+    ctx.log('SYSTEM', 'success', `Script ${name} finished.`);
+  },
+};
+
+export const sleepCommand: CommandSpec = {
+  name: 'sleep',
+  summary: 'Wait before the next chained step',
+  args: [{ name: 'duration', required: true, description: 'How long, e.g. 2 (seconds), 500ms or 1m' }],
+  run: async (ctx, { args }) => {
+    const ms = parseDuration(args.duration as string);
+    if (!(ms >= 0) || ms > MAX_SLEEP) {
+      throw new CommandError(`Invalid duration: ${args.duration}.`, `Use up to ${formatDuration(MAX_SLEEP)}, e.g. 2, 500ms or 1m.`);
+    }
+    await new Promise<void>(resolve => ctx.clock.setTimeout(resolve, ms));
+  },
+};
@@ -0,0 +1,118 @@
+import type { LogFilter } from '../logs';
+import { table } from '../output';
+import { PaneError, closePane, findPane, focusPane, splitPane, updatePane } from '../panes';
+import type { PaneLayout } from '../panes';
+import { findAgent, resolveAgents } from './agents';
+import { CommandError } from './errors';
+import type { CommandContext, CommandSpec } from './types';
+
+const MAX_TITLE = 24;
+
+function describeFilter(filter: LogFilter): string {
+  const parts = [
+    filter.agent && `agent ${filter.agent}`,
+    filter.followSelection && 'selected agent',
+    filter.types.length > 0 && filter.types.join('+'),
+    filter.query && (filter.regex ? `/${filter.query}/` : `"${filter.query}"`),
+  ];
+  return parts.filter(Boolean).join(', ') || 'all logs';
+}
+
+function changePanes(ctx: CommandContext, change: (layout: PaneLayout) => PaneLayout) {
+  try {
+    ctx.panes.update(change);
+  } catch (err) {
+    if (err instanceof PaneError) throw new CommandError(err.message);
+    throw err;
+  }
+}
+
+function paneRef(ctx: CommandContext, ref: string | undefined): string {
+  if (ref === undefined) return ctx.panes.current;
+  const pane = findPane(ctx.panes.layout(), ref);
+  if (!pane) throw new CommandError(`Unknown pane: ${ref}.`, `See 'pane list'.`);
+  return pane.id;
+}
+
+export const useCommand: CommandSpec = {
+  name: 'use',
+  summary: 'Set the default agent for commands typed at this prompt',
+  args: [{ name: 'agent', kind: 'agent', description: 'Agent or selector (tag:x, group:x); "none" to clear' }],
+  run: (ctx, { args }) => {
+    const ref = args.agent as string | undefined;
+    if (!ref) {
+      ctx.log('SYSTEM', 'info', ctx.target ? `Default target: ${ctx.target}` : 'No default target; commands act on what they name.');
+      return;
+    }
+    if (ref.toLowerCase() === 'none' || ref.toLowerCase() === 'all') {
+      ctx.setTarget(null);
+      ctx.log('SYSTEM', 'success', 'Cleared the default target.');
+      return;
+    }
+    const targets = resolveAgents(ctx.agents, [ref]);
+    const target = findAgent(ctx.agents, ref)?.name ?? ref.toLowerCase();
+    ctx.setTarget(target);
+    ctx.log('SYSTEM', 'success',
+      `Commands here now default to ${target}${targets.length > 1 ? ` (${targets.length} agents)` : ''}. Type 'use none' to clear.`);
+  },
+};
+
+export const paneCommand: CommandSpec = {
+  name: 'pane',
+  summary: 'Manage terminal panes (list, split, close, focus, title)',
+  args: [
+    { name: 'action', required: true, choices: ['list', 'split', 'close', 'focus', 'title'], description: 'What to do' },
+    { name: 'value', variadic: true, description: "horizontal|vertical for 'split' (applies to all panes), pane number for 'close'/'focus', text for 'title'" },
+  ],
+  run: (ctx, { args }) => {
+    const value = args.value as string[];
+    switch ((args.action as string).toLowerCase()) {
+      case 'list': {
+        const { panes, focused } = ctx.panes.layout();
+        return table(
+          ['#', 'id', 'title', 'target', 'filter', { key: 'focused', format: v => v ? 'yes' : '' }],
+          panes.map((pane, i) => ({
+            '#': i + 1,
+            id: pane.id,
+            title: pane.title,
+            target: pane.target,
+            filter: describeFilter(pane.filter),
+            focused: pane.id === focused,
+          })),
+        );
+      }
+      case 'split': {
+        const direction = value[0]?.toLowerCase();
+        if (direction !== undefined && direction !== 'horizontal' && direction !== 'vertical') {
+          throw new CommandError(`Invalid direction: ${value[0]}.`, 'Use horizontal (side by side) or vertical (stacked).');
+        }
+        const before = ctx.panes.layout().direction;
+        changePanes(ctx, layout => splitPane(layout, ctx.panes.current, direction));
+        const after = ctx.panes.layout();
+        ctx.log('SYSTEM', 'success', `Opened pane ${after.focused}.${after.direction !== before
+          ? ` All panes are now ${after.direction === 'horizontal' ? 'side by side' : 'stacked'}.`
+          : ''}`);
+        return;
+      }
+      case 'close': {
+        const id = paneRef(ctx, value[0]);
+        changePanes(ctx, layout => closePane(layout, id));
+        ctx.log('SYSTEM', 'success', `Closed pane ${id}.`);
+        return;
+      }
+      case 'focus': {
+        if (value.length === 0) throw new CommandError('Missing pane.', 'Try pane focus 2.');
+        const id = paneRef(ctx, value[0]);
+        changePanes(ctx, layout => focusPane(layout, id));
+        return;
+      }
+      case 'title': {
+        const title = value.join(' ').trim();
+        if (!title || title.length > MAX_TITLE) throw new CommandError(`Titles are 1 to ${MAX_TITLE} characters.`);
+        changePanes(ctx, layout => updatePane(layout, ctx.panes.current, pane => ({ ...pane, title })));
+        ctx.log('SYSTEM', 'success', `Renamed pane ${ctx.panes.current} to ${title}.`);
+        return;
+      }
+    }
+  },
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { CommandError } from './errors';
+import { parseArgs } from './parser';
+import { assignCommand, reassignCommand } from './tasks';
+import { tokenize } from './tokenizer';
+import type { CommandSpec } from './types';
+
+const deploy: CommandSpec = {
+  name: 'deploy',
+  summary: 'Deploy',
+  args: [{ name: 'agent', kind: 'agent', variadic: true, target: true }],
+  flags: [
+    { name: 'canary', alias: 'c', type: 'number' },
+    { name: 'version', alias: 'v', type: 'string' },
+    { name: 'force', type: 'boolean' },
+  ],
+  run: () => {},
+};
+
+describe('tokenize', () => {
+  it('honours quotes and escapes', () => {
+    expect(tokenize(`grep "disk full" 'a b' c\\ d ""`)).toEqual(['grep', 'disk full', 'a b', 'c d', '']);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => tokenize('echo "oops')).toThrow(new CommandError('Unterminated double quote'));
+  });
+});
+
+describe('parseArgs', () => {
+  it('binds flags in every spelling and leaves the rest as arguments', () => {
+    expect(parseArgs(deploy, ['NEXUS-7', '-c', '2', '--version=v2', '--force', 'CIPHER-9'])).toMatchObject({
+      args: { agent: ['NEXUS-7', 'CIPHER-9'] },
+      flags: { canary: 2, version: 'v2', force: true },
+    });
+  });
+
+  it('stops reading flags after --', () => {
+    expect(parseArgs(deploy, ['--', '--force']).args.agent).toEqual(['--force']);
+  });
+
+  it('fills an omitted target argument from the default target', () => {
+    expect(parseArgs(deploy, [], 'NEXUS-7').args.agent).toEqual(['NEXUS-7']);
+    expect(parseArgs(deploy, ['CIPHER-9'], 'NEXUS-7').args.agent).toEqual(['CIPHER-9']);
+    expect(parseArgs(assignCommand, ['T1'], 'NEXUS-7').args).toEqual({ task: 'T1', agent: 'NEXUS-7' });
+  });
+
+  it("does not fill reassign's agent, which comes before the task title", () => {
+    expect(parseArgs(reassignCommand, ['CIPHER-9', 'build', 'app'], 'NEXUS-7').args).toEqual({ agent: 'CIPHER-9', task: ['build', 'app'] });
+    expect(() => parseArgs(reassignCommand, [], 'NEXUS-7')).toThrow('Missing required argument <agent>');
+  });
+
+  it('reports bad input as command errors', () => {
+    expect(() => parseArgs(deploy, ['--canary', 'two'])).toThrow("Flag --canary expects a number, got 'two'");
+    expect(() => parseArgs(deploy, ['--version'])).toThrow('Flag --version requires a value');
+    expect(() => parseArgs(deploy, ['--force=yes'])).toThrow('Flag --force does not take a value');
+    expect(() => parseArgs(deploy, ['--nope'])).toThrow(CommandError);
+  });
+});
@@ -0,0 +1,88 @@
+import { CommandError } from './errors';
+import type { CommandSpec, FlagSpec, FlagValue, ParsedArgs } from './types';
+
+function coerceFlag(flag: FlagSpec, raw: string): FlagValue {
+  if (flag.type !== 'number') return raw;
+  const value = Number(raw);
+  if (raw === '' || Number.isNaN(value)) {
+    throw new CommandError(`Flag --${flag.name} expects a number, got '${raw}'`);
+  }
+  return value;
+}
+
+// Binds tokens (without the command name) to the spec's flags and arguments.
+// A bare "--" ends flag parsing. Omitted arguments marked `target` take the
+// prompt's default target, if there is one.
+export function parseArgs(spec: CommandSpec, tokens: string[], target: string | null = null): ParsedArgs {
+  const flagSpecs = spec.flags ?? [];
+  const positionals: string[] = [];
+  const flags: ParsedArgs['flags'] = {};
+  let flagsDone = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (flagsDone || !token.startsWith('-') || token === '-' || /^-\d/.test(token)) {
+      positionals.push(token);
+      continue;
+    }
+    if (token === '--') {
+      flagsDone = true;
+      continue;
+    }
+
+    const long = token.startsWith('--');
+    const [key, inline] = long ? token.slice(2).split(/=(.*)/s, 2) : [token.slice(1), undefined];
+    const flag = flagSpecs.find(f => (long ? f.name === key : f.alias === key));
+    if (!flag) {
+      throw new CommandError(`Unknown flag ${token} for '${spec.name}'`, `Try 'help ${spec.name}'`);
+    }
+
+    if (flag.type === 'boolean') {
+      if (inline !== undefined && inline !== 'true' && inline !== 'false') {
+        throw new CommandError(`Flag --${flag.name} does not take a value`);
+      }
+      flags[flag.name] = inline !== 'false';
+    } else if (inline !== undefined) {
+      flags[flag.name] = coerceFlag(flag, inline);
+    } else if (i + 1 < tokens.length) {
+      flags[flag.name] = coerceFlag(flag, tokens[++i]);
+    } else {
+      throw new CommandError(`Flag --${flag.name} requires a value`);
+    }
+  }
+
+  const args: ParsedArgs['args'] = {};
+  const argSpecs = spec.args ?? [];
+  let cursor = 0;
+  for (const arg of argSpecs) {
+    if (arg.variadic) {
+      let rest = positionals.slice(cursor);
+      cursor = positionals.length;
+      if (rest.length === 0 && arg.target && target) rest = [target];
+      if (arg.required && rest.length === 0) {
+        throw new CommandError(`Missing required argument <${arg.name}>`);
+      }
+      args[arg.name] = rest;
+      continue;
+    }
+    const value = positionals[cursor];
+    if (value === undefined) {
+      if (arg.target && target) args[arg.name] = target;
+      else if (arg.required) throw new CommandError(`Missing required argument <${arg.name}>`);
+      continue;
+    }
+    if (arg.choices && !arg.choices.includes(value.toLowerCase())) {
+      throw new CommandError(`Invalid <${arg.name}> '${value}'.`, `Expected one of ${arg.choices.join(', ')}.`);
+    }
+    if (arg.kind === 'number' && Number.isNaN(Number(value))) {
+      throw new CommandError(`Argument <${arg.name}> expects a number, got '${value}'`);
+    }
+    args[arg.name] = value;
+    cursor++;
+  }
+  if (cursor < positionals.length) {
+    throw new CommandError(`Unexpected argument '${positionals[cursor]}' for '${spec.name}'`);
+  }
+
+  return { positionals, args, flags };
+}
@@ -0,0 +1,116 @@
+import { hasRole } from '../access';
+import type { AuditOutcome, Role } from '../access';
+import { formatTable } from '../output';
+import { CommandError } from './errors';
+import { parseArgs } from './parser';
+import { suggest } from './suggest';
+import { tokenize } from './tokenizer';
+import type { CommandContext, CommandRegistryView, CommandResult, CommandSpec, ParsedArgs } from './types';
+
+export function requiredRole(spec: CommandSpec, input?: ParsedArgs): Role {
+  if (typeof spec.role === 'function') return input ? spec.role(input) : 'viewer';
+  return spec.role ?? 'viewer';
+}
+
+export class CommandRegistry implements CommandRegistryView {
+  private commands: CommandSpec[] = [];
+  private index = new Map<string, CommandSpec>();
+
+  register(...specs: CommandSpec[]): this {
+    for (const spec of specs) {
+      if (spec.confirm && !spec.flags?.some(flag => flag.name === 'force' && flag.type === 'boolean')) {
+        throw new Error(`Command '${spec.name}' asks for confirmation but has no --force flag`);
+      }
+      for (const name of [spec.name, ...(spec.aliases ?? [])]) {
+        const key = name.toLowerCase();
+        if (this.index.has(key)) throw new Error(`Command name '${name}' is already registered`);
+        this.index.set(key, spec);
+      }
+      this.commands.push(spec);
+    }
+    return this;
+  }
+
+  list(): CommandSpec[] {
+    return [...this.commands];
+  }
+
+  find(name: string): CommandSpec | undefined {
+    return this.index.get(name.toLowerCase());
+  }
+
+  names(): string[] {
+    return [...this.index.keys()];
+  }
+
+  usage(spec: CommandSpec): string {
+    const parts = [spec.name];
+    for (const arg of spec.args ?? []) {
+      const label = `${arg.name}${arg.variadic ? '...' : ''}`;
+      parts.push(arg.required ? `<${label}>` : `[${label}]`);
+    }
+    for (const flag of spec.flags ?? []) {
+      const value = flag.type === 'boolean' ? '' : ` <${flag.placeholder ?? flag.type}>`;
+      parts.push(`[--${flag.name}${value}]`);
+    }
+    return parts.join(' ');
+  }
+
+  // Runs a command and prints any table it returns; resolves to whether it
+  // succeeded.
+  async execute(line: string, ctx: CommandContext): Promise<boolean> {
+    const { ok, output } = await this.run(line, ctx);
+    if (output) formatTable(output).forEach(({ type, text }) => ctx.log('SYSTEM', type, text));
+    return ok;
+  }
+
+  // Runs a command and hands back its table instead of printing it.
+  // CommandErrors are reported through ctx.log, anything else propagates.
+  // Every attempt that names a command is written to the audit log with the
+  // user who ran it.
+  async run(line: string, ctx: CommandContext): Promise<CommandResult> {
+    const user = ctx.user;
+    let name: string | undefined;
+    let outcome: AuditOutcome = 'succeeded';
+    let error: string | undefined;
+    try {
+      const [first, ...rest] = tokenize(line);
+      name = first;
+      if (!name) return { ok: true };
+
+      const spec = this.find(name);
+      if (!spec) {
+        const matches = suggest(name, this.names());
+        throw new CommandError(
+          `Unknown command: ${name}.`,
+          matches.length
+            ? `Did you mean ${matches.map(m => `'${m}'`).join(' or ')}?`
+            : `Type 'help' for available commands.`,
+        );
+      }
+
+      const input = parseArgs(spec, rest, ctx.target);
+      const role = requiredRole(spec, input);
+      if (!hasRole(user, role)) {
+        outcome = 'denied';
+        throw new CommandError(`Permission denied: '${spec.name}' requires the ${role} role (${user.name} is ${user.role}).`);
+      }
+      const question = spec.confirm?.(ctx, input);
+      if (question && !input.flags.force && !await ctx.confirm(question)) {
+        outcome = 'cancelled';
+        throw new CommandError('Cancelled.', `Pass --force to skip the prompt.`);
+      }
+
+      const output = await spec.run(ctx, input);
+      return { ok: true, output: output ?? undefined };
+    } catch (err) {
+      if (outcome === 'succeeded') outcome = 'failed';
+      error = err instanceof Error ? err.message : String(err);
+      if (!(err instanceof CommandError)) throw err;
+      ctx.log('SYSTEM', 'error', err.hint ? `${err.message} ${err.hint}` : err.message);
+      return { ok: false };
+    } finally {
+      if (name) ctx.audit.record({ user: user.name, role: user.role, command: name.toLowerCase(), line, outcome, error });
+    }
+  }
+}
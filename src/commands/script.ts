@@ -0,0 +1,103 @@
+import { PipeError, parseStage, renderTable, transformTable } from '../output';
+import type { PipeStage } from '../output';
+import { CommandError } from './errors';
+import type { CommandRegistry } from './registry';
+import { splitChain, splitPipeline, tokenize } from './tokenizer';
+import type { CommandContext, RunOptions } from './types';
+
+const MAX_DEPTH = 8;
+
+// Replaces a leading alias name with its definition, keeping the rest of the
+// line (and its quoting) as trailing arguments.
+export function expandAlias(ctx: CommandContext, command: string): string | null {
+  const match = /^(\S+)(.*)$/s.exec(command);
+  const body = match && ctx.macros.alias(match[1]);
+  return body ? `${body}${match[2]}` : null;
+}
+
+// Runs one chain step: the command, then its '|' stages over the table it
+// returned.
+async function runPipeline(registry: CommandRegistry, step: string, ctx: CommandContext): Promise<boolean> {
+  let command: string;
+  let stages: PipeStage[];
+  try {
+    const [head, ...rest] = splitPipeline(step);
+    command = head;
+    stages = rest.map(part => parseStage(tokenize(part)));
+  } catch (err) {
+    if (!(err instanceof CommandError || err instanceof PipeError)) throw err;
+    ctx.log('SYSTEM', 'error', err.message);
+    return false;
+  }
+
+  const { ok, output } = await registry.run(command, ctx);
+  if (!ok) return false;
+  if (!output) {
+    if (stages.length === 0) return true;
+    ctx.log('SYSTEM', 'error', `'${command}' has no table output to pipe.`);
+    return false;
+  }
+  try {
+    const result = transformTable(output, stages);
+    ctx.onTable?.(result);
+    renderTable(result, stages).forEach(({ type, text }) => ctx.log('SYSTEM', type, text));
+    return true;
+  } catch (err) {
+    if (!(err instanceof PipeError)) throw err;
+    ctx.log('SYSTEM', 'error', err.message);
+    return false;
+  }
+}
+
+// Runs a command line: ';' and '&&' chains, aliases, and scripts started
+// with 'run' all go through here. Resolves to whether the last step that ran
+// succeeded; chains and labelled runs log each step and its outcome.
+export async function runCommandLine(
+  registry: CommandRegistry,
+  line: string,
+  ctx: CommandContext,
+  { label, depth = 0 }: RunOptions = {},
+): Promise<boolean> {
+  const fail = (message: string) => {
+    ctx.log('SYSTEM', 'error', message);
+    return false;
+  };
+  if (depth > MAX_DEPTH) return fail('Aliases or scripts nested too deeply; check for a loop.');
+
+  let steps;
+  try {
+    steps = splitChain(line);
+  } catch (err) {
+    if (!(err instanceof CommandError)) throw err;
+    return fail(err.message);
+  }
+
+  // Inherit rather than spread so live getters (agents) stay live.
+  const execute: CommandContext['execute'] = (next, options) => runCommandLine(registry, next, nested, { ...options, depth: depth + 1 });
+  const nested: CommandContext = Object.create(ctx, { execute: { value: execute } });
+  const verbose = label !== undefined || steps.length > 1;
+  let ok = true;
+  for (const [i, { command, connector }] of steps.entries()) {
+    const prefix = label ? `[${label} ${i + 1}/${steps.length}]` : `[${i + 1}/${steps.length}]`;
+    if (connector === '&&' && !ok) {
+      if (verbose) ctx.log('SYSTEM', 'warning', `${prefix} skipped: ${command}`);
+      continue;
+    }
+    if (verbose) ctx.log('SYSTEM', 'system', `${prefix} $ ${command}`);
+
+    const started = ctx.clock.now();
+    const expanded = expandAlias(ctx, command);
+    try {
+      ok = expanded !== null
+        ? await runCommandLine(registry, expanded, ctx, { depth: depth + 1 })
+        : await runPipeline(registry, command, nested);
+    } catch (err) {
+      ok = fail(`${command} crashed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (verbose) {
+      const took = `${((ctx.clock.now() - started) / 1000).toFixed(1)}s`;
+      ctx.log('SYSTEM', ok ? 'success' : 'error', `${prefix} ${ok ? 'ok' : 'failed'} (${took})`);
+    }
+  }
+  return ok;
+}
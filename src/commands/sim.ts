@@ -0,0 +1,119 @@
+import { formatDuration } from '../format';
+import { table } from '../output';
+import { SCENARIOS, ScenarioError, describeEvent, findScenario, isSeed, parseScenario } from '../sim';
+import type { Scenario } from '../sim';
+import type { SimulatorSource } from '../sources';
+import { forceFlag } from './access';
+import { CommandError } from './errors';
+import type { CommandContext, CommandSpec, ParsedArgs } from './types';
+
+function simulator(ctx: CommandContext): SimulatorSource {
+  if (!ctx.simulator) throw new CommandError('The agent source is not the simulator.', `Reload with ?source=simulator.`);
+  return ctx.simulator;
+}
+
+function parseSeed(value: string): number {
+  const seed = Number(value);
+  if (!isSeed(seed)) throw new CommandError(`Invalid seed: ${value}.`, 'Use a whole number from 0 to 4294967295.');
+  return seed;
+}
+
+// A built-in scenario by name, or one written inline as JSON.
+function resolveScenario(words: string[]): Scenario {
+  const text = words.join(' ').trim();
+  if (!text) throw new CommandError('Missing scenario.', `See 'sim list', or pass one as JSON.`);
+  if (!text.startsWith('{')) {
+    const scenario = findScenario(text);
+    if (!scenario) throw new CommandError(`Unknown scenario: ${text}.`, `See 'sim list'.`);
+    return scenario;
+  }
+  try {
+    return parseScenario(JSON.parse(text));
+  } catch (err) {
+    if (err instanceof SyntaxError) throw new CommandError(`Invalid scenario JSON: ${err.message}`);
+    if (err instanceof ScenarioError) throw new CommandError(`Invalid scenario: ${err.message}`);
+    throw err;
+  }
+}
+
+function action({ args }: ParsedArgs): string {
+  return (args.action as string).toLowerCase();
+}
+
+export const simCommand: CommandSpec = {
+  name: 'sim',
+  summary: 'Control the simulator (status, list, load, seed, stop)',
+  args: [
+    { name: 'action', required: true, choices: ['status', 'list', 'load', 'seed', 'stop'], description: 'What to do' },
+    { name: 'value', variadic: true, description: "Scenario name or JSON for 'load', number for 'seed'" },
+  ],
+  flags: [forceFlag],
+  role: (input) => {
+    const name = action(input);
+    return name === 'status' || name === 'list' || (name === 'seed' && (input.args.value as string[]).length === 0)
+      ? 'viewer'
+      : 'operator';
+  },
+  // Reseeding regenerates the fleet, losing anything changed since.
+  confirm: (ctx, input) => {
+    const value = input.args.value as string[];
+    const seed = action(input) === 'seed' && value.length > 0 ? parseSeed(value[0])
+      : action(input) === 'load' ? resolveScenario(value).seed
+      : undefined;
+    return seed === undefined ? undefined : `Regenerate the simulated fleet (${ctx.agents.length}) from seed ${seed}?`;
+  },
+  run: (ctx, input) => {
+    const value = input.args.value as string[];
+    switch (action(input)) {
+      case 'status': {
+        const sim = simulator(ctx);
+        ctx.log('SYSTEM', 'info', `Simulator seed: ${sim.seed}`);
+        const progress = sim.scenario();
+        if (!progress) {
+          ctx.log('SYSTEM', 'info', `No scenario loaded. See 'sim list'.`);
+          return;
+        }
+        ctx.log('SYSTEM', 'info',
+          `Scenario ${progress.name}: ${progress.fired}/${progress.total} event(s) fired, ${formatDuration(Math.floor(progress.elapsedMs / 1000) * 1000)} elapsed`);
+        progress.upcoming.forEach(event => ctx.log('SYSTEM', 'info', `  at ${formatDuration(event.at).padEnd(6)} ${describeEvent(event)}`));
+        return;
+      }
+      case 'list':
+        return table(
+          ['name', 'events', 'seed', 'description'],
+          SCENARIOS.map(s => ({ name: s.name, events: s.events.length, seed: s.seed ?? null, description: s.description ?? '' })),
+        );
+      case 'load': {
+        const sim = simulator(ctx);
+        const scenario = resolveScenario(value);
+        try {
+          sim.load(scenario);
+        } catch (err) {
+          if (err instanceof ScenarioError) throw new CommandError(err.message);
+          throw err;
+        }
+        ctx.log('SYSTEM', 'success',
+          `Loaded scenario ${scenario.name} (${scenario.events.length} event(s)${scenario.seed !== undefined ? `, seed ${scenario.seed}` : ''}).`);
+        scenario.events.forEach(event => ctx.log('SYSTEM', 'info', `  at ${formatDuration(event.at).padEnd(6)} ${describeEvent(event)}`));
+        return;
+      }
+      case 'seed': {
+        const sim = simulator(ctx);
+        if (value.length === 0) {
+          ctx.log('SYSTEM', 'info', `Simulator seed: ${sim.seed}`);
+          return;
+        }
+        const seed = parseSeed(value[0]);
+        sim.reseed(seed);
+        ctx.log('SYSTEM', 'success', `Reseeded the simulator with ${seed}${sim.scenario() ? '; scenario restarted' : ''}.`);
+        return;
+      }
+      case 'stop': {
+        const scenario = simulator(ctx).unload();
+        if (!scenario) throw new CommandError('No scenario is running.');
+        ctx.log('SYSTEM', 'success', `Stopped scenario ${scenario.name}.`);
+        return;
+      }
+    }
+  },
+};
@@ -0,0 +1,29 @@
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+// Closest candidates by edit distance, with prefix matches always included.
+export function suggest(input: string, candidates: string[], limit = 3): string[] {
+  const needle = input.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(needle.length / 3));
+  return candidates
+    .map(candidate => {
+      const lower = candidate.toLowerCase();
+      const score = lower.startsWith(needle) ? 0 : distance(needle, lower);
+      return { candidate, score };
+    })
+    .filter(({ score }) => score <= maxDistance)
+    .sort((a, b) => a.score - b.score || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
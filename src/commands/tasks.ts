@@ -0,0 +1,123 @@
+import { formatAge } from '../format';
+import { table } from '../output';
+import type { Task } from '../tasks';
+import { resolveAgent } from './agents';
+import { CommandError } from './errors';
+import type { CommandContext, CommandSpec } from './types';
+
+function agentName(ctx: CommandContext, id: string | null): string {
+  if (!id) return 'any';
+  return ctx.agents.find(a => a.id === id)?.name ?? id;
+}
+
+function taskTable(ctx: CommandContext, tasks: Task[], empty: string) {
+  return table(
+    ['id', 'status', 'agent', { key: 'progress', format: v => `${v}%` }, { key: 'attempts', align: 'right' }, 'age', 'title', 'detail'],
+    tasks.map(task => ({
+      id: task.id,
+      status: task.status,
+      agent: agentName(ctx, task.status === 'running' ? task.agentId : task.pinnedAgentId),
+      progress: task.progress,
+      attempts: `${task.attempts}/${task.maxAttempts}`,
+      age: formatAge(ctx.clock.now() - task.createdAt),
+      title: task.title,
+      detail: task.result ?? task.error ?? '',
+    })),
+    {
+      empty,
+      rowType: row => row.status === 'failed' ? 'error' : row.status === 'succeeded' ? 'success' : 'info',
+    },
+  );
+}
+
+function findTask(ctx: CommandContext, id: string): Task {
+  const task = ctx.tasks.get(id);
+  if (!task) throw new CommandError(`Unknown task: ${id}.`, `See 'task list --all'.`);
+  return task;
+}
+
+export const taskCommand: CommandSpec = {
+  name: 'task',
+  summary: 'Queue work for the fleet (submit, list, cancel)',
+  args: [
+    { name: 'action', required: true, choices: ['submit', 'list', 'cancel'], description: 'What to do with the queue' },
+    { name: 'task', variadic: true, description: "Title for 'submit', task id for 'cancel'" },
+  ],
+  flags: [
+    { name: 'agent', type: 'string', placeholder: 'agent', description: 'Pin a submitted task to one agent' },
+    { name: 'payload', alias: 'p', type: 'string', placeholder: 'data', description: 'Payload passed to the agent with the task' },
+    { name: 'retries', alias: 'r', type: 'number', placeholder: 'n', description: 'Retries after a failed attempt (default: 2)' },
+    { name: 'all', alias: 'a', type: 'boolean', description: 'List finished tasks too' },
+  ],
+  role: ({ args }) => (args.action as string).toLowerCase() === 'list' ? 'viewer' : 'operator',
+  run: (ctx, { args, flags }) => {
+    const rest = args.task as string[];
+    switch ((args.action as string).toLowerCase()) {
+      case 'submit': {
+        if (rest.length === 0) throw new CommandError('Missing task title.', `Try 'task submit "Index shard 4"'.`);
+        const retries = (flags.retries as number | undefined) ?? 2;
+        if (!Number.isInteger(retries) || retries < 0) throw new CommandError('--retries expects a whole number of 0 or more');
+        const pinned = flags.agent !== undefined ? resolveAgent(ctx.agents, flags.agent as string) : undefined;
+        const task = ctx.tasks.submit({
+          title: rest.join(' '),
+          payload: flags.payload as string | undefined,
+          agentId: pinned?.id ?? null,
+          maxAttempts: retries + 1,
+        });
+        ctx.log('SYSTEM', 'success', `Queued ${task.id}: ${task.title}${pinned ? ` (pinned to ${pinned.name})` : ''}`);
+        break;
+      }
+      case 'list': {
+        const tasks = ctx.tasks.list().filter(t => flags.all || t.status === 'queued' || t.status === 'running');
+        return taskTable(ctx, tasks, flags.all ? 'No tasks recorded.' : 'Task queue is empty.');
+      }
+      case 'cancel': {
+        if (rest.length === 0) throw new CommandError('Usage: task cancel <task-id...>');
+        for (const id of rest) {
+          const task = findTask(ctx, id);
+          if (!ctx.tasks.cancel(task.id)) throw new CommandError(`${task.id} is already ${task.status}.`);
+          ctx.log('SYSTEM', 'warning', `Cancelled ${task.id}: ${task.title}`);
+        }
+        break;
+      }
+    }
+  },
+};
+
+export const assignCommand: CommandSpec = {
+  name: 'assign',
+  summary: 'Pin a queued or running task to an agent',
+  args: [
+    { name: 'task', required: true, description: 'Task id' },
+    { name: 'agent', kind: 'agent', required: true, target: true, description: 'Agent to run it' },
+  ],
+  role: 'operator',
+  run: (ctx, { args }) => {
+    const task = findTask(ctx, args.task as string);
+    const agent = resolveAgent(ctx.agents, args.agent as string);
+    if (!ctx.tasks.assign(task.id, agent.id)) throw new CommandError(`${task.id} is already ${task.status}.`);
+    ctx.log('SYSTEM', 'success', `${task.id} assigned to ${agent.name}.`);
+  },
+};
+
+export const reassignCommand: CommandSpec = {
+  name: 'reassign',
+  summary: "Replace an agent's current task",
+  args: [
+    // Not filled from the default target: the title that follows would be
+    // read as the agent.
+    { name: 'agent', kind: 'agent', required: true, description: 'Agent to reassign' },
+    { name: 'task', required: true, variadic: true, description: 'New task title' },
+  ],
+  role: 'operator',
+  run: (ctx, { args }) => {
+    const agent = resolveAgent(ctx.agents, args.agent as string);
+    const current = ctx.tasks.runningOn(agent.id);
+    if (current) {
+      ctx.tasks.cancel(current.id);
+      ctx.log('SYSTEM', 'warning', `Cancelled ${current.id} on ${agent.name}: ${current.title}`);
+    }
+    const task = ctx.tasks.submit({ title: (args.task as string[]).join(' '), agentId: agent.id });
+    ctx.log('SYSTEM', 'success', `${agent.name} reassigned: ${task.id} ${task.title}`);
+  },
+};
@@ -0,0 +1,128 @@
+import { CommandError } from './errors';
+
+// Splits a command line into words, honouring single quotes, double quotes
+// and backslash escapes (outside single quotes).
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quote) {
+      if (ch === quote) {
+        quote = null;
+      } else if (ch === '\\' && quote === '"' && i + 1 < input.length) {
+        current += input[++i];
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inToken = true;
+    } else if (ch === '\\' && i + 1 < input.length) {
+      current += input[++i];
+      inToken = true;
+    } else if (/\s/.test(ch)) {
+      if (inToken) tokens.push(current);
+      current = '';
+      inToken = false;
+    } else {
+      current += ch;
+      inToken = true;
+    }
+  }
+
+  if (quote) throw new CommandError(`Unterminated ${quote === '"' ? 'double' : 'single'} quote`);
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+// Inverse of tokenize for a single word: quotes it only when needed.
+export function quoteArg(value: string): string {
+  if (value !== '' && !/[\s"'\\]/.test(value)) return value;
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+export interface ChainStep {
+  command: string;
+  // How the step joins the previous one: ';' always runs, '&&' only after a success.
+  connector: ';' | '&&' | null;
+}
+
+// Splits a line on unquoted ';' and '&&'. Steps keep their original quoting
+// so each can be tokenized (or alias-expanded) on its own.
+export function splitChain(input: string): ChainStep[] {
+  const steps: ChainStep[] = [];
+  let current = '';
+  let connector: ChainStep['connector'] = null;
+  let quote: '"' | "'" | null = null;
+
+  const push = (next: ';' | '&&' | null) => {
+    const command = current.trim();
+    if (command) {
+      steps.push({ command, connector: steps.length === 0 ? null : connector });
+    } else if (connector === '&&' || next === '&&') {
+      throw new CommandError(`Missing command ${next === '&&' && steps.length === 0 ? 'before' : 'after'} '&&'`);
+    }
+    current = '';
+    if (next) connector = next;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      if (ch === '\\' && quote === '"' && i + 1 < input.length) current += ch + input[++i];
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (ch === '\\' && i + 1 < input.length) {
+      current += ch + input[++i];
+    } else if (ch === ';') {
+      push(';');
+    } else if (ch === '&' && input[i + 1] === '&') {
+      i++;
+      push('&&');
+    } else {
+      current += ch;
+    }
+  }
+
+  if (quote) throw new CommandError(`Unterminated ${quote === '"' ? 'double' : 'single'} quote`);
+  push(null);
+  return steps;
+}
+
+// Splits one chain step on unquoted '|' into the command and its pipe stages.
+export function splitPipeline(input: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      if (ch === '\\' && quote === '"' && i + 1 < input.length) current += ch + input[++i];
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (ch === '\\' && i + 1 < input.length) {
+      current += ch + input[++i];
+    } else if (ch === '|') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+
+  if (quote) throw new CommandError(`Unterminated ${quote === '"' ? 'double' : 'single'} quote`);
+  parts.push(current.trim());
+  if (parts.length > 1 && parts.some(part => !part)) throw new CommandError("Missing command around '|'");
+  return parts;
+}
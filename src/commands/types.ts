@@ -0,0 +1,136 @@
+import type { Agent, LogEntry } from '../types';
+import type { AuditLog, Role, User, UserDirectory } from '../access';
+import type { AlertEngine } from '../alerts';
+import type { FleetManager } from '../fleet';
+import type { JobManager } from '../jobs';
+import type { LivenessMonitor } from '../liveness';
+import type { MacroStore } from '../macros';
+import type { PaneLayout } from '../panes';
+import type { Clock } from '../sim';
+import type { SimulatorSource } from '../sources';
+import type { Table } from '../output';
+import type { ExportFile, LogFilter } from '../logs';
+import type { TaskQueue } from '../tasks';
+import type { CommandHistory } from './history';
+
+export interface ArgSpec {
+  name: string;
+  description?: string;
+  required?: boolean;
+  variadic?: boolean;
+  kind?: 'agent' | 'command' | 'string' | 'number';
+  choices?: string[];
+  // Filled from the prompt's default target ('use NEXUS-7') when omitted.
+  target?: boolean;
+}
+
+export interface FlagSpec {
+  name: string;
+  alias?: string;
+  description?: string;
+  type: 'boolean' | 'string' | 'number';
+  placeholder?: string;
+}
+
+export type FlagValue = string | number | boolean;
+
+export interface ParsedArgs {
+  positionals: string[];
+  args: Record<string, string | string[] | undefined>;
+  flags: Record<string, FlagValue | undefined>;
+}
+
+export interface SessionControls {
+  savedAt(): number | null;
+  save(): boolean;
+  // Clears the saved session and reboots the dashboard.
+  reset(): void;
+}
+
+// The dashboard's panes, as seen from the pane a command was typed in.
+export interface PaneControls {
+  current: string;
+  layout(): PaneLayout;
+  update(change: (layout: PaneLayout) => PaneLayout): void;
+}
+
+export interface RunOptions {
+  // Prefix for per-step logging, e.g. a script name.
+  label?: string;
+  depth?: number;
+}
+
+export interface CommandContext {
+  agents: Agent[];
+  log: (agent: string, type: LogEntry['type'], message: string) => void;
+  updateAgents: (update: (agents: Agent[]) => Agent[]) => void;
+  clearLogs: () => void;
+  logRetention: number;
+  setLogRetention: (lines: number) => void;
+  setLogFilter: (update: (filter: LogFilter) => LogFilter) => void;
+  getLogs: (view: 'visible' | 'all') => LogEntry[];
+  download: (file: ExportFile) => void;
+  fleet: FleetManager;
+  session: SessionControls;
+  registry: CommandRegistryView;
+  // Runs another command line (chains, aliases) as part of this command.
+  execute: (line: string, options?: RunOptions) => Promise<boolean>;
+  // Receives each table a command line produces, after any pipes, for
+  // callers that want rows rather than rendered text.
+  onTable?: (table: Table) => void;
+  macros: MacroStore;
+  // Who is running this command; checked against each command's role.
+  user: User;
+  // Becomes another user for the rest of the line, and for later lines too
+  // unless the caller pinned a user for this one (HTTP requests do).
+  switchUser: (name: string) => User;
+  users: UserDirectory;
+  audit: AuditLog;
+  // Asks the operator a y/N question; resolves to their answer.
+  confirm: (message: string) => Promise<boolean>;
+  // Asks for a password without echoing or recording it; null when there is
+  // no prompt to ask at or the question was dismissed.
+  askPassword: (message: string) => Promise<string | null>;
+  history: CommandHistory;
+  jobs: JobManager;
+  tasks: TaskQueue;
+  liveness: LivenessMonitor;
+  alerts: AlertEngine;
+  // Default agent or selector for commands typed at this prompt.
+  target: string | null;
+  setTarget: (target: string | null) => void;
+  panes: PaneControls;
+  // The attached simulator, for 'sim'; null when the source is remote.
+  simulator: SimulatorSource | null;
+  // The center's clock: waits and ages go through it so a ManualClock
+  // drives commands as well as the simulator.
+  clock: Clock;
+}
+
+export interface CommandSpec {
+  name: string;
+  aliases?: string[];
+  summary: string;
+  args?: ArgSpec[];
+  flags?: FlagSpec[];
+  // Minimum role needed to run the command (default: viewer). A function lets
+  // subcommands differ, e.g. 'alert rules' vs 'alert add'.
+  role?: Role | ((input: ParsedArgs) => Role);
+  // Destructive commands return a y/N question here; they must also declare
+  // a --force flag that skips it.
+  confirm?: (ctx: CommandContext, input: ParsedArgs) => string | undefined;
+  // Listing commands return a table, which the terminal renders and pipes
+  // ('| where', '| sort', ...) can reshape.
+  run: (ctx: CommandContext, input: ParsedArgs) => void | Table | Promise<void | Table>;
+}
+
+export interface CommandResult {
+  ok: boolean;
+  output?: Table;
+}
+
+export interface CommandRegistryView {
+  list(): CommandSpec[];
+  find(name: string): CommandSpec | undefined;
+  usage(spec: CommandSpec): string;
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { quoteArg } from '../commands';
+import { formatAge, formatUptime } from '../format';
+import type { Point } from '../metrics';
+import type { Agent, LogEntry } from '../types';
+import Sparkline from './Sparkline';
+import { getLogColor, getLogPrefix } from './TerminalOutput';
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-[10px] text-gray-500 tracking-widest">{label}</div>
+      <div className="text-sm text-gray-200 truncate">{children}</div>
+    </div>
+  );
+}
+
+function MetricChart({ label, points, color }: {
+  label: string;
+  points: Point[];
+  color: string;
+}) {
+  const values = points.map(p => p.value);
+  const current = values[values.length - 1] ?? 0;
+  return (
+    <div className="p-3 rounded border border-[#1a1a2e] bg-[#0d0d14]">
+      <div className="flex items-center justify-between text-xs mb-2">
+        <span className="text-gray-500 tracking-widest">{label}</span>
+        <span style={{ color: current > 80 ? '#ff006e' : color }}>
+          {Math.round(current)}%
+          <span className="text-gray-600 ml-2">max {Math.round(Math.max(0, ...values))}%</span>
+        </span>
+      </div>
+      <Sparkline values={values} color={color} threshold={80} />
+    </div>
+  );
+}
+
+export default function AgentDrawer({ agent, cpu, memory, logs, onCommand, onClose }: {
+  agent: Agent;
+  cpu: Point[];
+  memory: Point[];
+  logs: LogEntry[];
+  onCommand: (line: string) => void;
+  onClose: () => void;
+}) {
+  const [taskDraft, setTaskDraft] = useState<string | null>(null);
+  
+  useEffect(() => {
+    setTaskDraft(null);
+  }, [agent.id]);
+  
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && taskDraft === null) onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose, taskDraft]);
+  
+  const target = quoteArg(agent.name);
+  const actions = [
+    { label: 'RESTART', line: `restart ${target}`, color: 'text-yellow-400 border-yellow-400/40 hover:bg-yellow-400/10' },
+    { label: 'STOP', line: `stop ${target}`, color: 'text-[#ff006e] border-[#ff006e]/40 hover:bg-[#ff006e]/10' },
+  ];
+  
+  return (
+    <aside className="fixed top-0 right-0 h-full w-full sm:w-[420px] z-30 flex flex-col border-l border-[#00ff9d]/30 bg-[#0a0a0f]/95 backdrop-blur-sm shadow-[-20px_0_40px_rgba(0,0,0,0.6)]">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-[#1a1a2e]">
+        <div>
+          <div className="font-['Orbitron'] font-bold text-[#00ff9d] tracking-wider">{agent.name}</div>
+          <div className="text-xs text-gray-500">{agent.id}</div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close agent details"
+          className="text-gray-500 hover:text-[#ff006e] transition-colors text-lg"
+        >
+          ✕
+        </button>
+      </div>
+      
+      <div className="flex-1 overflow-y-auto p-5 space-y-5 scrollbar-thin">
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="STATUS">
+            <span className={
+              agent.status === 'active' ? 'text-[#00ff9d]' :
+              agent.status === 'idle' ? 'text-[#00d4ff]' :
+              agent.status === 'error' ? 'text-[#ff006e]' : 'text-gray-500'
+            }>
+              {agent.status.toUpperCase()}
+            </span>
+          </Field>
+          <Field label="UPTIME">{formatUptime(agent.uptime)}</Field>
+          <Field label="LAST PING">{agent.lastPing ? formatAge(Date.now() - agent.lastPing) : 'never'}</Field>
+          <Field label="CPU / MEM">{Math.round(agent.cpu)}% / {Math.round(agent.memory)}%</Field>
+          <div className="col-span-2">
+            <Field label="CURRENT TASK">{agent.task || '—'}</Field>
+          </div>
+        </div>
+        
+        <div className="space-y-3">
+          <MetricChart label="CPU" points={cpu} color="#00ff9d" />
+          <MetricChart label="MEMORY" points={memory} color="#00d4ff" />
+        </div>
+        
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            {actions.map(action => (
+              <button
+                key={action.label}
+                type="button"
+                onClick={() => onCommand(action.line)}
+                className={`flex-1 py-2 rounded border text-xs font-['Orbitron'] tracking-wider transition-colors ${action.color}`}
+              >
+                {action.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setTaskDraft(taskDraft === null ? agent.task : null)}
+              className="flex-1 py-2 rounded border text-xs font-['Orbitron'] tracking-wider transition-colors text-[#00d4ff] border-[#00d4ff]/40 hover:bg-[#00d4ff]/10"
+            >
+              REASSIGN
+            </button>
+          </div>
+          {taskDraft !== null && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (taskDraft.trim()) onCommand(`reassign ${target} ${quoteArg(taskDraft.trim())}`);
+                setTaskDraft(null);
+              }}
+              className="flex gap-2"
+            >
+              <input
+                type="text"
+                value={taskDraft}
+                onChange={(e) => setTaskDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setTaskDraft(null)}
+                autoFocus
+                className="flex-1 bg-[#0d0d14] border border-[#1a1a2e] focus:border-[#00d4ff]/50 rounded px-2 py-1.5 text-sm text-white outline-none"
+              />
+              <button type="submit" className="px-3 rounded border border-[#00ff9d]/40 text-xs text-[#00ff9d] hover:bg-[#00ff9d]/10">
+                ASSIGN
+              </button>
+            </form>
+          )}
+        </div>
+        
+        <div>
+          <div className="text-[10px] text-gray-500 tracking-widest mb-2">RECENT LOGS</div>
+          {logs.length === 0 ? (
+            <div className="text-xs text-gray-600">No output from this agent yet.</div>
+          ) : (
+            <div className="space-y-1 text-xs font-mono">
+              {logs.map(log => (
+                <div key={log.id} className="flex gap-2">
+                  <span className="text-gray-600 shrink-0">{log.timestamp.toLocaleTimeString('en-US', { hour12: false })}</span>
+                  <span className={`shrink-0 ${getLogColor(log.type)}`}>{getLogPrefix(log.type)}</span>
+                  <span className={getLogColor(log.type)}>{log.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,46 @@
+import type { Alert } from '../alerts';
+import { formatAge } from '../format';
+
+const SEVERITY_STYLES: Record<Alert['severity'], string> = {
+  critical: 'border-[#ff006e]/60 bg-[#ff006e]/10 text-[#ff006e]',
+  warning: 'border-yellow-400/50 bg-yellow-400/10 text-yellow-400',
+  info: 'border-[#00d4ff]/50 bg-[#00d4ff]/10 text-[#00d4ff]',
+};
+
+export default function AlertsStrip({ alerts, now, onAck }: {
+  alerts: Alert[];
+  now: number;
+  onAck: (id: string) => void;
+}) {
+  if (alerts.length === 0) return null;
+  
+  return (
+    <div className="flex items-center gap-3 overflow-x-auto pb-1 scrollbar-thin">
+      <span className="font-['Orbitron'] text-xs tracking-[0.2em] text-[#ff006e] shrink-0 animate-pulse">
+        ALERTS {alerts.length}
+      </span>
+      {alerts.map(alert => (
+        <div
+          key={alert.id}
+          className={`flex items-center gap-3 px-3 py-1.5 rounded border text-xs shrink-0 transition-opacity ${SEVERITY_STYLES[alert.severity]} ${
+            alert.acknowledged ? 'opacity-50' : ''
+          }`}
+        >
+          <span className="font-bold">{alert.id}</span>
+          <span className="uppercase tracking-wider">{alert.severity}</span>
+          <span className="text-gray-300">{alert.message}</span>
+          <span className="text-gray-500">{formatAge(now - alert.firedAt)}</span>
+          {!alert.acknowledged && (
+            <button
+              type="button"
+              onClick={() => onAck(alert.id)}
+              className="px-2 py-0.5 rounded border border-current hover:bg-white/10 transition-colors"
+            >
+              ACK
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { complete, commonPrefix } from '../commands';
+import type { CommandHistory, CommandRegistry, Completion } from '../commands';
+import type { MacroStore } from '../macros';
+
+interface CompletionState {
+  start: number;
+  items: Completion[];
+  index: number;
+}
+
+interface SearchState {
+  query: string;
+  match: number;
+  original: string;
+}
+
+export default function CommandInput({ onSubmit, registry, history, macros, agentNames, confirm = null, secret = false, user, target = null, inputRef, onFocus, autoFocus = true }: {
+  onSubmit: (cmd: string) => void;
+  registry: CommandRegistry;
+  history: CommandHistory;
+  macros: MacroStore;
+  agentNames: string[];
+  // Pending y/N question; while set, Enter submits even an empty answer.
+  confirm?: string | null;
+  // The pending question wants a password: input is masked and Tab, history
+  // and search are off.
+  secret?: boolean;
+  user?: string;
+  // Default target set with 'use', shown in the prompt.
+  target?: string | null;
+  inputRef?: React.Ref<HTMLInputElement>;
+  onFocus?: () => void;
+  autoFocus?: boolean;
+}) {
+  const [command, setCommand] = useState('');
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [completion, setCompletion] = useState<CompletionState | null>(null);
+  const [search, setSearch] = useState<SearchState | null>(null);
+  
+  const submit = (line: string) => {
+    if (line.trim() || confirm) {
+      onSubmit(line);
+      setCommand('');
+      setHistoryIndex(-1);
+      setCompletion(null);
+    }
+  };
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (search) {
+      const match = search.match >= 0 ? history.list()[search.match] : '';
+      setSearch(null);
+      submit(match);
+    } else {
+      submit(command);
+    }
+  };
+  
+  const matchText = search && search.match >= 0 ? history.list()[search.match] : '';
+  
+  const handleSearchKeyDown = (e: React.KeyboardEvent, current: SearchState) => {
+    if (e.ctrlKey && e.key === 'r') {
+      e.preventDefault();
+      const match = history.search(current.query, current.match >= 0 ? current.match : undefined);
+      if (match >= 0) setSearch({ ...current, match });
+    } else if (e.key === 'Escape' || (e.ctrlKey && e.key === 'g')) {
+      e.preventDefault();
+      setCommand(current.original);
+      setSearch(null);
+    } else if (['Tab', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'].includes(e.key)) {
+      e.preventDefault();
+      setCommand(matchText || current.original);
+      setHistoryIndex(-1);
+      setSearch(null);
+    }
+  };
+  
+  const applyCompletion = (start: number, value: string, final: boolean) => {
+    setCommand(command.slice(0, start) + value + (final ? ' ' : ''));
+  };
+  
+  const handleTab = (reverse: boolean) => {
+    if (completion && completion.items.length > 1) {
+      const count = completion.items.length;
+      const index = reverse
+        ? (completion.index <= 0 ? count - 1 : completion.index - 1)
+        : (completion.index + 1) % count;
+      setCompletion({ ...completion, index });
+      applyCompletion(completion.start, completion.items[index].value, false);
+      return;
+    }
+    
+    const result = complete(command, { registry, agentNames, aliases: macros.toJSON().aliases });
+    if (result.items.length === 0) {
+      setCompletion(null);
+    } else if (result.items.length === 1) {
+      applyCompletion(result.start, result.items[0].value, true);
+      setCompletion(null);
+    } else {
+      const prefix = commonPrefix(result.items.map(item => item.value));
+      if (prefix.length > result.word.length) applyCompletion(result.start, prefix, false);
+      setCompletion({ start: result.start, items: result.items, index: -1 });
+    }
+  };
+  
+  const handleChange = (value: string) => {
+    if (search) {
+      setSearch({ ...search, query: value, match: value ? history.search(value) : -1 });
+      return;
+    }
+    setCommand(value);
+    if (completion) {
+      const result = complete(value, { registry, agentNames, aliases: macros.toJSON().aliases });
+      setCompletion(result.items.length > 0 ? { start: result.start, items: result.items, index: -1 } : null);
+    }
+  };
+  
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (confirm && secret) {
+      if (e.key === 'Tab' || e.key === 'ArrowUp' || e.key === 'ArrowDown' || (e.ctrlKey && e.key === 'r')) e.preventDefault();
+    } else if (search) {
+      handleSearchKeyDown(e, search);
+    } else if (e.ctrlKey && e.key === 'r') {
+      e.preventDefault();
+      setCompletion(null);
+      setSearch({ query: '', match: -1, original: command });
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      handleTab(e.shiftKey);
+    } else if (e.key === 'Escape' && completion) {
+      e.preventDefault();
+      setCompletion(null);
+    } else if (e.key === 'Enter' && completion && completion.index >= 0) {
+      e.preventDefault();
+      applyCompletion(completion.start, completion.items[completion.index].value, true);
+      setCompletion(null);
+    } else if (completion && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      handleTab(e.key === 'ArrowUp');
+    } else if (e.key === 'ArrowUp' && history.size > 0) {
+      e.preventDefault();
+      const entries = history.list();
+      const newIndex = historyIndex < entries.length - 1 ? historyIndex + 1 : historyIndex;
+      setHistoryIndex(newIndex);
+      setCommand(entries[entries.length - 1 - newIndex] || '');
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      const entries = history.list();
+      const newIndex = historyIndex > 0 ? historyIndex - 1 : -1;
+      setHistoryIndex(newIndex);
+      setCommand(newIndex === -1 ? '' : entries[entries.length - 1 - newIndex] || '');
+    }
+  };
+  
+  return (
+    <form onSubmit={handleSubmit} className="relative">
+      {completion && (
+        <ul
+          role="listbox"
+          className="absolute bottom-full left-0 right-0 mb-2 max-h-60 overflow-y-auto z-20 rounded-lg border border-[#00d4ff]/30 bg-[#0a0a0f]/95 backdrop-blur-sm text-sm scrollbar-thin"
+        >
+          {completion.items.map((item, i) => (
+            <li
+              key={item.value}
+              role="option"
+              aria-selected={i === completion.index}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applyCompletion(completion.start, item.value, true);
+                setCompletion(null);
+              }}
+              className={`flex gap-4 px-4 py-1.5 cursor-pointer ${
+                i === completion.index ? 'bg-[#00ff9d]/10 text-[#00ff9d]' : 'text-gray-300 hover:bg-white/5'
+              }`}
+            >
+              <span className="shrink-0 font-bold">{item.value}</span>
+              {item.description && <span className="text-gray-500 truncate">{item.description}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="absolute inset-0 rounded-lg bg-gradient-to-r from-[#00ff9d]/20 via-[#00d4ff]/20 to-[#00ff9d]/20 blur-sm animate-pulse" />
+      <div className="relative flex items-center bg-[#0a0a0f] border border-[#00ff9d]/30 rounded-lg overflow-hidden">
+        {search ? (
+          <span className={`pl-4 pr-2 shrink-0 ${search.query && search.match < 0 ? 'text-[#ff006e]' : 'text-yellow-400'}`}>
+            ({search.query && search.match < 0 ? 'failing ' : ''}reverse-i-search)
+          </span>
+        ) : confirm ? (
+          <span className="text-yellow-400 pl-4 pr-2 font-bold shrink-0">{secret ? 'password' : 'y/N'} ❯</span>
+        ) : (
+          <span className="text-[#00ff9d] pl-4 pr-2 font-bold shrink-0">
+            {user && <span className="text-gray-500 font-normal">{user}</span>}
+            {target && <span className="text-[#00d4ff] font-normal">@{target}</span>}
+            {(user || target) && ' '}❯
+          </span>
+        )}
+        <input
+          type={confirm && secret ? 'password' : 'text'}
+          value={search ? search.query : command}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletion(null)}
+          onFocus={onFocus}
+          ref={inputRef}
+          placeholder={search
+            ? 'search history...'
+            : confirm
+            ? secret ? confirm : `${confirm} Type y to confirm, anything else cancels.`
+            : 'Enter command... (try: status, restart NEXUS-7, deploy --canary 2, help — Tab completes, Ctrl+R searches)'}
+          className={`${search ? 'w-48 shrink-0' : 'flex-1'} bg-transparent text-white py-3 px-2 outline-none placeholder-gray-600`}
+          autoFocus={autoFocus}
+          spellCheck={false}
+          autoComplete="off"
+        />
+        {search && (
+          <span className="flex-1 truncate text-gray-300 px-2">
+            <span className="text-gray-600">: </span>{matchText}
+          </span>
+        )}
+        <button
+          type="submit"
+          className="px-6 py-3 bg-[#00ff9d]/10 text-[#00ff9d] hover:bg-[#00ff9d]/20 transition-colors border-l border-[#00ff9d]/30 font-['Orbitron'] text-sm tracking-wider"
+        >
+          EXEC
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,103 @@
+import { EMPTY_FILTER, LOG_SOURCES, LOG_TYPES } from '../logs';
+import type { LogFilter } from '../logs';
+import { getLogColor } from './TerminalOutput';
+
+export default function LogFilterBar({ filter, onChange, agentNames, error, shown, total }: {
+  filter: LogFilter;
+  onChange: (filter: LogFilter) => void;
+  agentNames: string[];
+  error: string | null;
+  shown: number;
+  total: number;
+}) {
+  const toggleType = (type: LogFilter['types'][number]) => {
+    const types = filter.types.includes(type)
+      ? filter.types.filter(t => t !== type)
+      : [...filter.types, type];
+    onChange({ ...filter, types });
+  };
+  
+  const toggleClass = (on: boolean) => on
+    ? 'border-[#00ff9d]/60 bg-[#00ff9d]/10 text-[#00ff9d]'
+    : 'border-[#1a1a2e] text-gray-500 hover:border-[#00d4ff]/40';
+  
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {LOG_TYPES.map(type => (
+        <button
+          key={type}
+          type="button"
+          onClick={() => toggleType(type)}
+          className={`px-2 py-1 rounded border uppercase tracking-wider transition-colors ${
+            filter.types.includes(type) ? `border-current bg-white/5 ${getLogColor(type)}` : toggleClass(false)
+          }`}
+        >
+          {type}
+        </button>
+      ))}
+      
+      <select
+        value={filter.agent ?? ''}
+        onChange={(e) => onChange({ ...filter, agent: e.target.value || null })}
+        className="px-2 py-1 rounded border border-[#1a1a2e] bg-[#0a0a0f] text-gray-300 outline-none focus:border-[#00d4ff]/50"
+      >
+        <option value="">ALL AGENTS</option>
+        {[...LOG_SOURCES, ...agentNames].map(name => (
+          <option key={name} value={name}>{name}</option>
+        ))}
+      </select>
+      
+      <div className={`flex items-center flex-1 min-w-[160px] rounded border bg-[#0a0a0f] ${
+        error ? 'border-[#ff006e]/60' : 'border-[#1a1a2e] focus-within:border-[#00d4ff]/50'
+      }`}>
+        <input
+          type="text"
+          value={filter.query}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+          placeholder={filter.regex ? 'regex...' : 'search...'}
+          title={error ?? undefined}
+          spellCheck={false}
+          className="flex-1 min-w-0 bg-transparent text-gray-200 px-2 py-1 outline-none placeholder-gray-600"
+        />
+        <button
+          type="button"
+          onClick={() => onChange({ ...filter, caseSensitive: !filter.caseSensitive })}
+          title="Match case"
+          className={`px-2 py-1 ${filter.caseSensitive ? 'text-[#00ff9d]' : 'text-gray-600 hover:text-gray-400'}`}
+        >
+          Aa
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange({ ...filter, regex: !filter.regex })}
+          title="Regular expression"
+          className={`px-2 py-1 ${filter.regex ? 'text-[#00ff9d]' : 'text-gray-600 hover:text-gray-400'}`}
+        >
+          .*
+        </button>
+      </div>
+      
+      <button
+        type="button"
+        onClick={() => onChange({ ...filter, followSelection: !filter.followSelection })}
+        title="Scope the log view to the selected agent card"
+        className={`px-2 py-1 rounded border transition-colors ${toggleClass(filter.followSelection)}`}
+      >
+        FOLLOW SELECTION
+      </button>
+      
+      <span className="text-gray-600 ml-auto">
+        {shown === total ? `${total} LINES` : `${shown}/${total} LINES`}
+      </span>
+      {filter !== EMPTY_FILTER && (
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_FILTER)}
+          className="px-2 py-1 text-gray-500 hover:text-[#ff006e] transition-colors"
+        >
+          RESET
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { FLEET_SERIES, computeStats } from '../metrics';
+import type { TimeSeriesStore } from '../metrics';
+import type { Agent } from '../types';
+import Sparkline from './Sparkline';
+
+const WINDOWS = [
+  { label: '1M', ms: 60000 },
+  { label: '15M', ms: 15 * 60000 },
+  { label: '1H', ms: 3600000 },
+];
+
+export default function MetricsPanel({ agents, store, now, windowMs, onWindowChange }: {
+  agents: Agent[];
+  store: TimeSeriesStore;
+  now: number;
+  windowMs: number;
+  onWindowChange: (windowMs: number) => void;
+}) {
+  const activeCount = agents.filter(a => a.status === 'active').length;
+  const errorCount = agents.filter(a => a.status === 'error').length;
+  const avgCpu = agents.length ? Math.round(agents.reduce((acc, a) => acc + a.cpu, 0) / agents.length) : 0;
+  const avgMem = agents.length ? Math.round(agents.reduce((acc, a) => acc + a.memory, 0) / agents.length) : 0;
+  const fleetMax = Math.max(agents.length, 1);
+  
+  const metrics = [
+    { label: 'ACTIVE AGENTS', value: `${activeCount}/${agents.length}`, color: '#00ff9d', series: FLEET_SERIES.active, max: fleetMax, unit: '', threshold: undefined },
+    { label: 'ERRORS', value: errorCount.toString(), color: errorCount > 0 ? '#ff006e' : '#00ff9d', series: FLEET_SERIES.errors, max: fleetMax, unit: '', threshold: undefined },
+    { label: 'AVG CPU', value: `${avgCpu}%`, color: avgCpu > 80 ? '#ff006e' : '#00d4ff', series: FLEET_SERIES.cpu, max: 100, unit: '%', threshold: 80 },
+    { label: 'AVG MEMORY', value: `${avgMem}%`, color: avgMem > 80 ? '#ff006e' : '#00d4ff', series: FLEET_SERIES.memory, max: 100, unit: '%', threshold: 80 },
+  ];
+  
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-end gap-1 text-xs">
+        <span className="text-gray-600 tracking-widest mr-2">WINDOW</span>
+        {WINDOWS.map(w => (
+          <button
+            key={w.label}
+            type="button"
+            onClick={() => onWindowChange(w.ms)}
+            className={`px-2 py-0.5 rounded border transition-colors ${
+              windowMs === w.ms
+                ? 'border-[#00ff9d]/60 bg-[#00ff9d]/10 text-[#00ff9d]'
+                : 'border-[#1a1a2e] text-gray-500 hover:border-[#00d4ff]/40'
+            }`}
+          >
+            {w.label}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {metrics.map((metric) => {
+          const points = store.query(metric.series, windowMs, now);
+          const stats = computeStats(points);
+          const round = (n: number) => `${Math.round(n * 10) / 10}${metric.unit}`;
+          return (
+            <div 
+              key={metric.label}
+              className="relative p-4 rounded border border-[#1a1a2e] bg-[#0d0d14]/80 overflow-hidden group hover:border-[#00d4ff]/30 transition-colors"
+            >
+              <div 
+                className="absolute bottom-0 left-0 h-1 transition-all duration-500"
+                style={{ 
+                  backgroundColor: metric.color,
+                  width: metric.label.includes('CPU') || metric.label.includes('MEMORY') 
+                    ? metric.value 
+                    : metric.label === 'ACTIVE AGENTS' 
+                      ? `${agents.length ? (activeCount / agents.length) * 100 : 0}%`
+                      : '100%',
+                  boxShadow: `0 0 10px ${metric.color}`
+                }}
+              />
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-xs text-gray-500 tracking-widest mb-1">{metric.label}</div>
+                  <div 
+                    className="font-['Orbitron'] text-2xl font-bold"
+                    style={{ color: metric.color, textShadow: `0 0 20px ${metric.color}` }}
+                  >
+                    {metric.value}
+                  </div>
+                </div>
+                <div className="flex-1 max-w-[160px] pt-1">
+                  <Sparkline values={points.map(p => p.value)} color={metric.color} max={metric.max} height={36} threshold={metric.threshold} />
+                </div>
+              </div>
+              <div className="mt-2 text-[10px] text-gray-500 tracking-wider">
+                {stats
+                  ? `MIN ${round(stats.min)} · MAX ${round(stats.max)} · P95 ${round(stats.p95)}`
+                  : 'COLLECTING…'}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
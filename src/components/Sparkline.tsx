@@ -0,0 +1,33 @@
+// `threshold` draws a dashed warning line at that value; leave it out for
+// series where no level is special, such as counts.
+export default function Sparkline({ values, color, max = 100, height = 48, threshold }: {
+  values: number[];
+  color: string;
+  max?: number;
+  height?: number;
+  threshold?: number;
+}) {
+  const width = 100;
+  const points = values.map((value, i) => {
+    const x = values.length > 1 ? (i / (values.length - 1)) * width : width;
+    const y = height - (Math.max(0, Math.min(max, value)) / max) * height;
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+  });
+  
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+      {threshold !== undefined && (
+        <line
+          x1="0" y1={height - (threshold / max) * height} x2={width} y2={height - (threshold / max) * height}
+          stroke="#ff006e" strokeOpacity="0.25" strokeDasharray="2 2" vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {points.length > 0 && (
+        <>
+          <polygon points={`0,${height} ${points.join(' ')} ${width},${height}`} fill={color} fillOpacity="0.1" />
+          <polyline points={points.join(' ')} fill="none" stroke={color} strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+        </>
+      )}
+    </svg>
+  );
+}
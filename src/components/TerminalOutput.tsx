@@ -0,0 +1,143 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { highlight } from '../logs';
+import type { LogView } from '../logs';
+import type { LogEntry } from '../types';
+
+const ROW_HEIGHT = 24;
+const OVERSCAN = 20;
+const STICKY_THRESHOLD = ROW_HEIGHT * 2;
+
+export const getLogColor = (type: LogEntry['type']) => {
+  switch (type) {
+    case 'success': return 'text-[#00ff9d]';
+    case 'warning': return 'text-yellow-400';
+    case 'error': return 'text-[#ff006e]';
+    case 'system': return 'text-[#00d4ff]';
+    default: return 'text-gray-300';
+  }
+};
+
+export const getLogPrefix = (type: LogEntry['type']) => {
+  switch (type) {
+    case 'success': return '[✓]';
+    case 'warning': return '[!]';
+    case 'error': return '[✗]';
+    case 'system': return '[◈]';
+    default: return '[→]';
+  }
+};
+
+function LogRow({ log, pattern, top }: { log: LogEntry; pattern: RegExp | null; top: number }) {
+  return (
+    <div
+      className="absolute left-0 right-0 flex gap-2 hover:bg-white/5 px-2 rounded transition-colors whitespace-nowrap"
+      style={{ top, height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+    >
+      <span className="text-gray-600 shrink-0">
+        {log.timestamp.toLocaleTimeString('en-US', { hour12: false })}.{log.timestamp.getMilliseconds().toString().padStart(3, '0')}
+      </span>
+      <span className={`shrink-0 ${getLogColor(log.type)}`}>{getLogPrefix(log.type)}</span>
+      <span className="text-[#00d4ff] shrink-0">[{log.agent}]</span>
+      <span className={`overflow-hidden text-ellipsis whitespace-pre ${getLogColor(log.type)}`} title={log.message}>
+        {highlight(log.message, pattern).map((segment, i) => segment.match
+          ? <mark key={i} className="bg-yellow-400/30 text-yellow-200 rounded-sm">{segment.text}</mark>
+          : segment.text
+        )}
+      </span>
+    </div>
+  );
+}
+
+// Only the rows inside the viewport (plus overscan) are mounted. The view
+// follows new output until the user scrolls up, then counts what they missed.
+// Rows are read from the view one by one, so the buffer is never copied.
+export default function TerminalOutput({ logs, pattern = null }: { logs: LogView; pattern?: RegExp | null }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [sticky, setSticky] = useState(true);
+  const [lastSeenId, setLastSeenId] = useState<string | null>(null);
+  
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => {
+      setViewport({ top: el.scrollTop, height: el.clientHeight });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+  
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (el && sticky) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [logs, sticky, viewport.height]);
+  
+  const handleScroll = () => {
+    const el = containerRef.current;
+    if (!el) return;
+    setViewport({ top: el.scrollTop, height: el.clientHeight });
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight <= STICKY_THRESHOLD;
+    if (atBottom !== sticky) {
+      setSticky(atBottom);
+      setLastSeenId(atBottom ? null : logs.at(logs.size - 1)?.id ?? null);
+    }
+  };
+  
+  const jumpToBottom = () => {
+    setSticky(true);
+    setLastSeenId(null);
+  };
+  
+  let unseen = 0;
+  if (!sticky) {
+    unseen = logs.size;
+    for (let i = logs.size - 1; i >= 0; i--) {
+      if (logs.at(i)?.id === lastSeenId) {
+        unseen = logs.size - 1 - i;
+        break;
+      }
+    }
+  }
+  
+  const first = Math.max(0, Math.floor(viewport.top / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(logs.size, Math.ceil((viewport.top + viewport.height) / ROW_HEIGHT) + OVERSCAN);
+  const rows = [];
+  for (let i = first; i < last; i++) {
+    const log = logs.at(i);
+    if (log) rows.push(<LogRow key={log.id} log={log} pattern={pattern} top={i * ROW_HEIGHT} />);
+  }
+  
+  return (
+    <div className="relative h-full">
+      <div 
+        ref={containerRef}
+        onScroll={handleScroll}
+        className="h-full overflow-y-auto font-mono text-sm p-4 scrollbar-thin"
+        style={{
+          background: 'linear-gradient(180deg, rgba(10,10,15,0.95) 0%, rgba(13,13,20,0.98) 100%)',
+        }}
+      >
+        <div className="relative" style={{ height: logs.size * ROW_HEIGHT }}>
+          {rows}
+        </div>
+        <div className="flex items-center gap-2 px-2 text-[#00ff9d] animate-pulse" style={{ height: ROW_HEIGHT }}>
+          <span className="text-gray-600">
+            {new Date().toLocaleTimeString('en-US', { hour12: false })}.000
+          </span>
+          <span>▌</span>
+        </div>
+      </div>
+      {!sticky && (
+        <button
+          type="button"
+          onClick={jumpToBottom}
+          className="absolute bottom-4 right-6 px-3 py-1.5 rounded border border-[#00ff9d]/50 bg-[#0a0a0f]/90 text-xs text-[#00ff9d] tracking-wider hover:bg-[#00ff9d]/10 transition-colors shadow-[0_0_10px_rgba(0,255,157,0.3)]"
+        >
+          ▼ {unseen > 0 ? `${unseen} NEW LINE${unseen === 1 ? '' : 'S'}` : 'JUMP TO BOTTOM'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useMemo } from 'react';
+import type { CommandHistory, CommandRegistry } from '../commands';
+import { EXPORT_FORMATS, FilteredLogView, bufferView, compileFilter, downloadFile, exportLogs, viewToArray } from '../logs';
+import type { LogFilter, LogView, RingBuffer } from '../logs';
+import type { MacroStore } from '../macros';
+import type { Pane } from '../panes';
+import type { LogEntry } from '../types';
+import CommandInput from './CommandInput';
+import LogFilterBar from './LogFilterBar';
+import TerminalOutput from './TerminalOutput';
+
+// One tile of the terminal layout: its own filter, output and prompt over
+// the shared log.
+export default function TerminalPane({
+  pane, index, focused, canClose, logs, logVersion, selectedName, agentNames, targetNames,
+  registry, history, macros, user, confirm, secret, inputRef, onFocus, onCommand, onFilterChange,
+}: {
+  pane: Pane;
+  index: number;
+  focused: boolean;
+  canClose: boolean;
+  logs: RingBuffer<LogEntry>;
+  // Bumped whenever the buffer changes.
+  logVersion: number;
+  selectedName: string | null;
+  agentNames: string[];
+  targetNames: string[];
+  registry: CommandRegistry;
+  history: CommandHistory;
+  macros: MacroStore;
+  user: string;
+  confirm: string | null;
+  secret: boolean;
+  inputRef: (el: HTMLInputElement | null) => void;
+  onFocus: () => void;
+  // Runs a line in this pane; `record: false` keeps it out of history.
+  onCommand: (line: string, options?: { record?: boolean }) => void;
+  onFilterChange: (filter: LogFilter) => void;
+}) {
+  const compiledFilter = useMemo(() => compileFilter(pane.filter, selectedName), [pane.filter, selectedName]);
+  // A filtered view only tests the lines added since the last render.
+  const filtered = useMemo(
+    () => compiledFilter.active ? new FilteredLogView(logs, compiledFilter.test) : null,
+    [logs, compiledFilter],
+  );
+  const visibleLogs = useMemo<LogView>(() => {
+    if (!filtered) return bufferView(logs);
+    filtered.refresh();
+    return filtered.snapshot();
+  }, [logs, filtered, logVersion]);
+
+  const buttonClass = 'px-1.5 rounded border border-[#1a1a2e] text-gray-500 hover:border-[#00d4ff]/50 hover:text-[#00d4ff] transition-colors';
+
+  return (
+    <section
+      onMouseDown={onFocus}
+      className={`flex flex-col gap-3 min-h-0 min-w-0 p-3 rounded-lg border transition-colors ${
+        focused ? 'border-[#00ff9d]/40 shadow-[0_0_15px_rgba(0,255,157,0.1)]' : 'border-[#1a1a2e]'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className={`font-['Orbitron'] ${focused ? 'text-[#00ff9d]' : 'text-gray-500'}`}>{index + 1}</span>
+          <span className="tracking-[0.2em] text-gray-400 truncate">{pane.title.toUpperCase()}</span>
+          {pane.target && (
+            <span className="px-1.5 text-[10px] tracking-wider text-[#00d4ff]/80 border border-[#00d4ff]/30 rounded truncate">
+              {pane.target}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => downloadFile(exportLogs(viewToArray(visibleLogs), format))}
+              title={`Download this pane's ${compiledFilter.active ? 'filtered ' : ''}transcript as ${format}`}
+              className={`${buttonClass} uppercase`}
+            >
+              {format}
+            </button>
+          ))}
+          <div className="w-px h-4 bg-[#1a1a2e] mx-1" />
+          <button type="button" onClick={() => onCommand('pane split horizontal', { record: false })} title="Split side by side (Alt+\)" className={buttonClass}>
+            ◫
+          </button>
+          <button type="button" onClick={() => onCommand('pane split vertical', { record: false })} title="Split stacked (Alt+-)" className={buttonClass}>
+            ⊟
+          </button>
+          {canClose && (
+            <button
+              type="button"
+              onClick={() => onCommand(`pane close ${pane.id}`, { record: false })}
+              title="Close pane (Alt+W)"
+              className={`${buttonClass} hover:border-[#ff006e]/50 hover:text-[#ff006e]`}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      </div>
+      <LogFilterBar
+        filter={pane.filter}
+        onChange={onFilterChange}
+        agentNames={agentNames}
+        error={compiledFilter.error}
+        shown={visibleLogs.size}
+        total={logs.size}
+      />
+      <div className="flex-1 border border-[#1a1a2e] rounded-lg overflow-hidden bg-[#0a0a0f] min-h-[160px]">
+        <TerminalOutput logs={visibleLogs} pattern={compiledFilter.pattern} />
+      </div>
+      <CommandInput
+        onSubmit={onCommand}
+        registry={registry}
+        history={history}
+        macros={macros}
+        agentNames={targetNames}
+        confirm={confirm}
+        secret={secret}
+        user={user}
+        target={pane.target}
+        inputRef={inputRef}
+        onFocus={onFocus}
+        autoFocus={focused}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock, findScenario } from '../sim';
+import { SimulatorSource } from '../sources';
+import { CommandCenter } from './center';
+import type { CenterStorage } from './center';
+
+const START = 1700000000000;
+
+function memoryStorage(): CenterStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+// A center wired to a seeded simulator the way startHeadless does it, but
+// on a clock the test moves by hand.
+function createRun(scenario?: string) {
+  const clock = new ManualClock(START);
+  const center = new CommandCenter({ storage: memoryStorage(), clock, logRetention: 5000 });
+  const disconnect = center.connect(new SimulatorSource({ seed: 7, clock, scenario: scenario ? findScenario(scenario) : undefined }));
+  clock.setInterval(() => center.tick(), 1000);
+  return { clock, center, disconnect };
+}
+
+describe('CommandCenter', () => {
+  it('stamps command output with the clock time', async () => {
+    const { clock, center, disconnect } = createRun();
+    await clock.advance(5000);
+
+    const result = await center.execute('whoami');
+
+    expect(result.ok).toBe(true);
+    expect(result.lines.map(l => l.timestamp.getTime())).toEqual(result.lines.map(() => START + 5000));
+    expect(result.lines[0].id).toMatch(new RegExp(`^log-${START + 5000}-`));
+    disconnect();
+  });
+
+  it('fires the default CPU alert for a scripted spike on simulated time', async () => {
+    const { clock, center, disconnect } = createRun('cpu-spike');
+    const cpuRule = center.alerts.listRules().find(r => r.metric === 'cpu')!;
+    const cpuAlerts = () => center.alerts.firing().filter(a => a.ruleId === cpuRule.id);
+
+    await clock.advance(60000);
+    expect(cpuAlerts()).toEqual([]);
+
+    await clock.advance(30000);
+    const [alert] = cpuAlerts();
+    expect(alert).toMatchObject({ target: 'PHANTOM-X', severity: 'warning' });
+    // The ramp ends at 40s and the rule needs 30s above 90%.
+    expect(alert.firedAt - START).toBeGreaterThanOrEqual(60000);
+    expect(alert.firedAt - START).toBeLessThanOrEqual(75000);
+
+    const logged = center.logs.toArray().find(l => l.agent === 'ALERT' && l.message.startsWith(`${alert.id} `));
+    expect(logged?.timestamp.getTime()).toBe(alert.firedAt);
+    expect(center.logs.toArray().every(l => l.timestamp.getTime() <= clock.now())).toBe(true);
+    disconnect();
+  });
+
+  it('replays the same run for the same seed', async () => {
+    const runs = [createRun('outage'), createRun('outage')];
+    for (const run of runs) await run.clock.advance(30000);
+
+    const [a, b] = runs.map(({ center }) =>
+      center.logs.toArray().map(l => `${l.timestamp.getTime()} ${l.agent} ${l.message}`));
+    expect(a.length).toBeGreaterThan(0);
+    expect(a).toEqual(b);
+    runs.forEach(run => run.disconnect());
+  });
+
+  it('runs sleeps, scans and jobs on the clock', async () => {
+    const { clock, center, disconnect } = createRun();
+    const name = center.agents[0].name;
+    let done = false;
+    const line = center.execute(`sleep 10s && scan && start ${name}`, { user: 'admin' });
+    void line.then(() => { done = true; });
+
+    await clock.advance(11000);
+    expect(done).toBe(false);
+    expect(center.jobs.list()).toEqual([]);
+
+    // The scan takes 2.5s and the start at most 4.8s.
+    await clock.advance(10000);
+    expect(done).toBe(true);
+    const result = await line;
+    expect(result.lines.find(l => l.message.startsWith('Scan complete'))?.timestamp.getTime()).toBe(START + 12500);
+    const [job] = center.jobs.list();
+    expect(job).toMatchObject({ agentName: name, createdAt: START + 12500, startedAt: START + 12500 });
+    expect(job.finishedAt).toBeLessThanOrEqual(START + 17300);
+    disconnect();
+  });
+
+  it('takes the first su to admin as its password setup', async () => {
+    const { center, disconnect } = createRun();
+    const answers = (...values: (string | null)[]) => async () => values.shift() ?? null;
+    expect((await center.execute('whoami')).lines.at(-1)?.message).toBe('viewer (viewer)');
+    expect((await center.execute('restart all --force')).ok).toBe(false);
+
+    expect((await center.execute('su admin', { askPassword: answers('s3cret', 'typo') })).user).toBe('viewer');
+    expect(center.users.needsSetup()).toBe(true);
+    await center.execute('su admin', { askPassword: answers('s3cret', 's3cret') });
+    expect(center.users.current.name).toBe('admin');
+
+    await center.execute('su viewer');
+    const wrong = await center.execute('su admin', { askPassword: answers('guess') });
+    expect(wrong.lines.at(-1)?.message).toBe('Incorrect password.');
+    await center.execute('su admin', { askPassword: answers('s3cret') });
+    expect(center.users.current.name).toBe('admin');
+    disconnect();
+  });
+});
+
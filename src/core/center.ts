@@ -0,0 +1,408 @@
+import type { Agent, LogEntry } from '../types';
+import { SimulatorSource, applyAgentPatches } from '../sources';
+import type { AgentSource, ConnectionState } from '../sources';
+import { AccessError, AuditLog, UserDirectory } from '../access';
+import type { User } from '../access';
+import { AlertEngine, DEFAULT_RULES, parseRule } from '../alerts';
+import type { Alert } from '../alerts';
+import { CommandError, CommandHistory, createDefaultRegistry, runCommandLine } from '../commands';
+import type { CommandContext, CommandRegistry, PaneControls, SessionControls } from '../commands';
+import { FleetManager } from '../fleet';
+import { JobManager } from '../jobs';
+import type { Job } from '../jobs';
+import { LivenessMonitor, resolveHeartbeatTimeout } from '../liveness';
+import { EMPTY_FILTER, RingBuffer, compileFilter, isLogRetention, resolveLogRetention } from '../logs';
+import type { ExportFile, LogFilter } from '../logs';
+import { MacroStore } from '../macros';
+import type { Macros } from '../macros';
+import { TimeSeriesStore, agentSeries, sampleAgents } from '../metrics';
+import type { Table } from '../output';
+import { systemClock } from '../sim';
+import type { Clock } from '../sim';
+import { TaskQueue } from '../tasks';
+import type { Task } from '../tasks';
+
+// Same shape as localStorage; the Node entry points pass a file-backed one.
+export interface CenterStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+// What the front end provides to commands. The dashboard asks questions in
+// its prompt and downloads files through the browser; headless callers
+// keep the defaults below.
+export interface CommandHost {
+  confirm(message: string): Promise<boolean>;
+  askPassword(message: string): Promise<string | null>;
+  download(file: ExportFile): void;
+  session: SessionControls;
+  setLogFilter(update: (filter: LogFilter) => LogFilter): void;
+  // Logs matching the caller's filter, for 'export' without --all.
+  getVisibleLogs(): LogEntry[];
+  // The prompt's default target ('use').
+  getTarget(): string | null;
+  setTarget(target: string | null): void;
+  panes: PaneControls;
+}
+
+export interface CenterOptions {
+  logs?: LogEntry[];
+  logRetention?: number;
+  macros?: Macros;
+  onMacrosChange?: (macros: Macros) => void;
+  // Used for users, the audit log and history; localStorage when omitted.
+  storage?: CenterStorage;
+  // Stamps log entries and drives tick(); share a ManualClock with the
+  // simulator to fast-forward a whole run.
+  clock?: Clock;
+}
+
+export interface ExecuteOptions extends Partial<CommandHost> {
+  // Name of the user to run as (default: the directory's current user).
+  // When given, 'su' only changes who runs the rest of this line and the
+  // directory's current user is left alone. Callers authenticate it first
+  // (UserDirectory.authenticate); execute() takes the name as given.
+  user?: string;
+  // Whether to add the line to history (drawer buttons don't).
+  record?: boolean;
+}
+
+// Everything one command line produced, for callers that can't watch the
+// terminal: the lines it logged, tables after any pipes, and exported files.
+export interface ExecuteResult {
+  ok: boolean;
+  user: string;
+  lines: LogEntry[];
+  tables: Table[];
+  files: ExportFile[];
+}
+
+let nextLogId = 1;
+
+// The command layer and the state it acts on, independent of any UI. The
+// dashboard renders it; the CLI and HTTP API drive it headless. All of them
+// go through execute(), so validation, roles, confirmation and the audit
+// trail are the same everywhere.
+export class CommandCenter {
+  readonly registry: CommandRegistry = createDefaultRegistry();
+  readonly history: CommandHistory;
+  readonly users: UserDirectory;
+  readonly audit: AuditLog;
+  readonly macros: MacroStore;
+  readonly logs: RingBuffer<LogEntry>;
+  readonly metrics = new TimeSeriesStore();
+  readonly liveness = new LivenessMonitor(resolveHeartbeatTimeout());
+  readonly alerts = new AlertEngine(() => this.emit());
+  readonly jobs: JobManager;
+  readonly tasks: TaskQueue;
+  readonly fleet: FleetManager;
+
+  private agentList: Agent[] = [];
+  private connectionState: ConnectionState = 'connecting';
+  private currentSource: AgentSource | null = null;
+  private listeners = new Set<() => void>();
+  private logListeners = new Set<(entry: LogEntry) => void>();
+  private changes = 0;
+  private logChanges = 0;
+  private filter: LogFilter = EMPTY_FILTER;
+  private target: string | null = null;
+  private clock: Clock;
+
+  constructor(options: CenterOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.history = new CommandHistory(500, options.storage);
+    this.users = new UserDirectory(options.storage);
+    this.audit = new AuditLog(1000, options.storage);
+    this.macros = new MacroStore(options.macros, options.onMacrosChange);
+    this.logs = new RingBuffer(isLogRetention(options.logRetention) ? options.logRetention : resolveLogRetention());
+    options.logs?.forEach(entry => this.logs.push(entry));
+    DEFAULT_RULES.forEach(rule => this.alerts.addRule(parseRule(rule)));
+    this.jobs = new JobManager({
+      log: this.log,
+      setAgentStatus: (id, status) => this.updateAgents(prev => prev.map(a => a.id === id ? { ...a, status } : a)),
+      onChange: () => this.emit(),
+    }, this.clock);
+    this.tasks = new TaskQueue({
+      log: this.log,
+      claimAgent: (id, task) => this.updateAgents(prev => prev.map(a => a.id === id ? { ...a, status: 'active', task } : a)),
+      releaseAgent: (id) => this.updateAgents(prev => prev.map(a =>
+        a.id === id ? { ...a, task: 'Awaiting task', status: a.status === 'active' ? 'idle' : a.status } : a)),
+      onChange: () => this.emit(),
+    }, this.clock);
+    this.fleet = new FleetManager(this.clock);
+  }
+
+  get agents(): Agent[] {
+    return this.agentList;
+  }
+
+  get connection(): ConnectionState {
+    return this.connectionState;
+  }
+
+  get source(): AgentSource | null {
+    return this.currentSource;
+  }
+
+  // Bumped on every change, for useSyncExternalStore.
+  get version(): number {
+    return this.changes;
+  }
+
+  // Bumped only when the log buffer changes, so views can skip copying it.
+  get logVersion(): number {
+    return this.logChanges;
+  }
+
+  listJobs(): Job[] {
+    return this.jobs.list();
+  }
+
+  listTasks(): Task[] {
+    return this.tasks.list();
+  }
+
+  listAlerts(): Alert[] {
+    return this.alerts.list();
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  // Called with every log entry as it is added, whoever added it.
+  onLog(listener: (entry: LogEntry) => void): () => void {
+    this.logListeners.add(listener);
+    return () => this.logListeners.delete(listener);
+  }
+
+  log = (agent: string, type: LogEntry['type'], message: string, timestamp = new Date(this.clock.now())) => {
+    this.append(agent, type, message, timestamp);
+  };
+
+  updateAgents = (update: (agents: Agent[]) => Agent[]) => {
+    this.agentList = update(this.agentList);
+    this.emit();
+  };
+
+  // Attaches a source and starts applying its events; returns a function
+  // that detaches it again.
+  connect(source: AgentSource): () => void {
+    this.currentSource = source;
+    this.jobs.attach(source);
+    this.tasks.attach(source);
+    this.fleet.attach(source);
+    const disconnect = source.connect((event) => {
+      switch (event.type) {
+        case 'snapshot':
+          this.updateAgents(() => event.agents);
+          break;
+        case 'update':
+          this.updateAgents(prev => applyAgentPatches(prev, event.agents));
+          break;
+        case 'remove':
+          this.updateAgents(prev => prev.filter(a => !event.agentIds.includes(a.id)));
+          event.agentIds.forEach(id => {
+            this.metrics.delete(agentSeries(id, 'cpu'));
+            this.metrics.delete(agentSeries(id, 'memory'));
+          });
+          break;
+        case 'log':
+          this.log(event.log.agent, event.log.type, event.log.message, event.log.timestamp);
+          break;
+        case 'connection':
+          this.connectionState = event.state;
+          this.emit();
+          if (event.state === 'disconnected') {
+            this.log('SYSTEM', 'warning', `Lost connection to ${source.label}. Reconnecting...`);
+          }
+          break;
+      }
+    });
+
+    return () => {
+      this.jobs.attach(null);
+      this.tasks.attach(null);
+      this.fleet.attach(null);
+      this.currentSource = null;
+      disconnect();
+    };
+  }
+
+  // Heartbeat liveness, alert rules, task dispatch and metric sampling.
+  // Callers run this about once a second.
+  tick(time = this.clock.now()) {
+    const { patches, events } = this.liveness.evaluate(this.agentList, time);
+    if (patches.length > 0) this.updateAgents(prev => applyAgentPatches(prev, patches));
+    events.forEach(({ agent, type, message }) => this.log(agent, type, message));
+
+    this.alerts.evaluate(this.agentList, time).forEach(({ type, alert }) => {
+      if (type === 'fired') {
+        this.log('ALERT', alert.severity === 'critical' ? 'error' : 'warning',
+          `${alert.id} [${alert.severity.toUpperCase()}] ${alert.message}`);
+      } else {
+        this.log('ALERT', 'success', `${alert.id} resolved: ${alert.message}`);
+      }
+    });
+    this.tasks.dispatch(this.agentList, id => this.jobs.activeFor(id) !== undefined);
+    sampleAgents(this.metrics, this.agentList, time);
+    this.emit();
+  }
+
+  // Runs one command line as `user`, echoing it and recording history the
+  // way the terminal prompt does.
+  async execute(line: string, options: ExecuteOptions = {}): Promise<ExecuteResult> {
+    const user = this.resolveUser(options.user);
+    const result: ExecuteResult = { ok: false, user: user.name, lines: [], tables: [], files: [] };
+    const log = (agent: string, type: LogEntry['type'], message: string) => {
+      result.lines.push(this.append(agent, type, message, new Date(this.clock.now())));
+    };
+
+    let expanded: string;
+    try {
+      expanded = this.history.expand(line);
+    } catch (err) {
+      if (!(err instanceof CommandError)) throw err;
+      log('USER', 'info', `$ ${line}`);
+      log('SYSTEM', 'error', err.message);
+      return result;
+    }
+    log('USER', 'info', `$ ${expanded}`);
+    if (options.record ?? true) this.history.add(expanded);
+
+    const host = this.host(options, result, log);
+    const center = this;
+    let acting = options.user;
+    const ctx: CommandContext = {
+      get agents() {
+        return center.agents;
+      },
+      log,
+      updateAgents: this.updateAgents,
+      clearLogs: () => {
+        this.logs.clear();
+        this.logsChanged();
+      },
+      get logRetention() {
+        return center.logs.capacity;
+      },
+      setLogRetention: (lines) => {
+        this.logs.resize(lines);
+        this.logsChanged();
+      },
+      setLogFilter: host.setLogFilter,
+      getLogs: (view) => view === 'all' ? this.logs.toArray() : host.getVisibleLogs(),
+      download: host.download,
+      session: host.session,
+      get target() {
+        return host.getTarget();
+      },
+      setTarget: host.setTarget,
+      panes: host.panes,
+      registry: this.registry,
+      execute: (next, runOptions) => runCommandLine(this.registry, next, ctx, runOptions),
+      onTable: (output) => result.tables.push(output),
+      macros: this.macros,
+      // Read again for every command in a chain, so 'su admin && restart x'
+      // checks and audits the restart as admin.
+      get user() {
+        return center.resolveUser(acting);
+      },
+      switchUser: (name) => {
+        if (acting === undefined) return this.users.switchTo(name);
+        const next = this.resolveUser(name);
+        acting = next.name;
+        return next;
+      },
+      users: this.users,
+      audit: this.audit,
+      confirm: host.confirm,
+      askPassword: host.askPassword,
+      history: this.history,
+      jobs: this.jobs,
+      tasks: this.tasks,
+      fleet: this.fleet,
+      liveness: this.liveness,
+      alerts: this.alerts,
+      get simulator() {
+        return center.source instanceof SimulatorSource ? center.source : null;
+      },
+      clock: this.clock,
+    };
+    result.ok = await runCommandLine(this.registry, expanded, ctx);
+    return result;
+  }
+
+  private resolveUser(name: string | undefined): User {
+    if (name === undefined) return this.users.current;
+    const user = this.users.find(name);
+    if (!user) throw new AccessError(`Unknown user: ${name}.`);
+    return user;
+  }
+
+  // Headless defaults: questions are answered "no" (pass --force), files
+  // are returned in the result, and the log filter and target are kept
+  // here.
+  private host(options: ExecuteOptions, result: ExecuteResult, log: CommandContext['log']): CommandHost {
+    return {
+      confirm: options.confirm ?? (async (message) => {
+        log('SYSTEM', 'warning', `${message} [y/N] (no prompt available)`);
+        return false;
+      }),
+      askPassword: options.askPassword ?? (async (message) => {
+        log('SYSTEM', 'warning', `${message} (no prompt available)`);
+        return null;
+      }),
+      download: options.download ?? ((file) => result.files.push(file)),
+      session: options.session ?? {
+        savedAt: () => null,
+        save: () => {
+          throw new CommandError('Sessions are only saved by the dashboard.');
+        },
+        reset: () => {
+          throw new CommandError('Sessions are only saved by the dashboard.');
+        },
+      },
+      setLogFilter: options.setLogFilter ?? ((update) => {
+        this.filter = update(this.filter);
+      }),
+      getVisibleLogs: options.getVisibleLogs ?? (() => {
+        const compiled = compileFilter(this.filter, null);
+        const all = this.logs.toArray();
+        return compiled.active ? all.filter(compiled.test) : all;
+      }),
+      getTarget: options.getTarget ?? (() => this.target),
+      setTarget: options.setTarget ?? ((target) => {
+        this.target = target;
+      }),
+      panes: options.panes ?? {
+        current: '',
+        layout: () => {
+          throw new CommandError('Panes are only available in the dashboard.');
+        },
+        update: () => {
+          throw new CommandError('Panes are only available in the dashboard.');
+        },
+      },
+    };
+  }
+
+  private append(agent: string, type: LogEntry['type'], message: string, timestamp: Date): LogEntry {
+    const entry: LogEntry = { id: `log-${this.clock.now()}-${nextLogId++}`, timestamp, agent, type, message };
+    this.logs.push(entry);
+    this.logListeners.forEach(listener => listener(entry));
+    this.logsChanged();
+    return entry;
+  }
+
+  private logsChanged() {
+    this.logChanges++;
+    this.emit();
+  }
+
+  private emit() {
+    this.changes++;
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,2 @@
+export { CommandCenter } from './center';
+export type { CenterOptions, CenterStorage, CommandHost, ExecuteOptions, ExecuteResult } from './center';
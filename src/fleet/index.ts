@@ -0,0 +1,2 @@
+export { FleetError, FleetManager, nextAgentId, normalizeLabel, normalizeName } from './manager';
+export type { AgentDraft } from './manager';
@@ -0,0 +1,136 @@
+import { systemClock } from '../sim';
+import type { Clock } from '../sim';
+import type { AgentSource, FleetChange } from '../sources';
+import type { Agent } from '../types';
+
+export interface AgentDraft {
+  name: string;
+  id?: string;
+  group?: string;
+  tags?: string[];
+}
+
+export class FleetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FleetError';
+  }
+}
+
+const NAME_PATTERN = /^[A-Z0-9][A-Z0-9_.-]*$/;
+const LABEL_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/;
+// Words that already mean something where an agent reference is expected.
+const RESERVED = ['all'];
+
+// Agent names are upper-case like the built-in fleet; groups and tags are
+// lower-case labels. Names, ids, groups and tags cannot contain ':' because
+// "tag:<x>" and "group:<x>" are target selectors.
+export function normalizeName(name: string): string {
+  const value = name.trim().toUpperCase();
+  if (!NAME_PATTERN.test(value)) {
+    throw new FleetError(`Invalid agent name "${name}": use letters, digits, '-', '_' or '.'`);
+  }
+  if (RESERVED.includes(value.toLowerCase())) throw new FleetError(`"${name}" is reserved`);
+  return value;
+}
+
+export function normalizeLabel(label: string, what = 'tag'): string {
+  const value = label.trim().toLowerCase();
+  if (!LABEL_PATTERN.test(value)) {
+    throw new FleetError(`Invalid ${what} "${label}": use letters, digits, '-', '_' or '.'`);
+  }
+  return value;
+}
+
+// Names and ids share one namespace because commands accept either.
+function assertUnique(agents: Agent[], value: string, except?: string) {
+  const key = value.toLowerCase();
+  const clash = agents.find(a => a.id !== except && (a.id.toLowerCase() === key || a.name.toLowerCase() === key));
+  if (clash) throw new FleetError(`"${value}" is already used by ${clash.name} (${clash.id})`);
+}
+
+export function nextAgentId(agents: Agent[]): string {
+  const taken = new Set(agents.map(a => a.id.toLowerCase()));
+  let n = agents.length;
+  while (taken.has(`agent-${n}`)) n++;
+  return `agent-${n}`;
+}
+
+// Validates fleet changes against the current agents and forwards them to
+// the attached source, which owns the agent registry.
+export class FleetManager {
+  private source: AgentSource | null = null;
+
+  constructor(private clock: Clock = systemClock, private timeoutMs = 10000) {}
+
+  attach(source: AgentSource | null) {
+    this.source = source;
+  }
+
+  async add(agents: Agent[], draft: AgentDraft): Promise<Agent> {
+    const name = normalizeName(draft.name);
+    assertUnique(agents, name);
+    let id = nextAgentId(agents);
+    if (draft.id !== undefined) {
+      id = draft.id.trim();
+      if (!LABEL_PATTERN.test(id.toLowerCase())) throw new FleetError(`Invalid agent id "${draft.id}"`);
+      assertUnique(agents, id);
+    }
+    if (id.toLowerCase() === name.toLowerCase()) throw new FleetError('Agent id and name must differ');
+    const agent: Agent = {
+      id,
+      name,
+      status: 'idle',
+      task: 'Awaiting task',
+      cpu: 0,
+      memory: 0,
+      uptime: 0,
+      lastPing: this.clock.now(),
+      group: draft.group !== undefined ? normalizeLabel(draft.group, 'group') : undefined,
+      tags: [...new Set((draft.tags ?? []).map(tag => normalizeLabel(tag)))],
+    };
+    await this.send({ action: 'add', agent });
+    return agent;
+  }
+
+  async remove(agent: Agent): Promise<void> {
+    await this.send({ action: 'remove', agentId: agent.id });
+  }
+
+  async rename(agents: Agent[], agent: Agent, name: string): Promise<string> {
+    const value = normalizeName(name);
+    assertUnique(agents, value, agent.id);
+    await this.send({ action: 'update', agentId: agent.id, changes: { name: value } });
+    return value;
+  }
+
+  async setGroup(agent: Agent, group: string | null): Promise<string | undefined> {
+    const value = group === null ? undefined : normalizeLabel(group, 'group');
+    await this.send({ action: 'update', agentId: agent.id, changes: { group: value } });
+    return value;
+  }
+
+  async setTags(agent: Agent, tags: string[]): Promise<string[]> {
+    const value = [...new Set(tags.map(tag => normalizeLabel(tag)))];
+    await this.send({ action: 'update', agentId: agent.id, changes: { tags: value } });
+    return value;
+  }
+
+  private async send(change: FleetChange) {
+    const source = this.source;
+    if (!source?.manage) throw new FleetError(`Agent source ${source?.label ?? '(none)'} does not support fleet changes`);
+    const controller = new AbortController();
+    const timer = this.clock.setTimeout(
+      () => controller.abort(new FleetError(`Timed out after ${Math.round(this.timeoutMs / 1000)}s`)),
+      this.timeoutMs,
+    );
+    try {
+      await source.manage(change, controller.signal);
+    } catch (err) {
+      if (err instanceof FleetError) throw err;
+      throw new FleetError(err instanceof Error ? err.message : String(err));
+    } finally {
+      this.clock.clearTimeout(timer);
+    }
+  }
+}
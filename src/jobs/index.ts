@@ -0,0 +1,2 @@
+export { JobManager, JobTimeoutError } from './manager';
+export type { Job, JobHooks, JobStatus } from './manager';
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock } from '../sim';
+import type { AgentSource, LifecycleRequest } from '../sources';
+import type { Agent } from '../types';
+import { JobManager } from './manager';
+
+const AGENT = { id: 'a1', name: 'ALPHA' };
+
+// A source whose operations settle only when the test says so.
+function controlledSource() {
+  const requests: { request: LifecycleRequest; resolve: () => void; reject: (err: Error) => void }[] = [];
+  const source: AgentSource = {
+    kind: 'simulator',
+    label: 'test',
+    connect: () => () => {},
+    run: request => new Promise((resolve, reject) => {
+      requests.push({ request, resolve, reject });
+      request.signal.addEventListener('abort', () => reject(request.signal.reason));
+    }),
+  };
+  return { source, requests };
+}
+
+function createManager(source: AgentSource | null, clock = new ManualClock(1000)) {
+  const statuses: Agent['status'][] = [];
+  const jobs = new JobManager({
+    log: () => {},
+    setAgentStatus: (_id, status) => statuses.push(status),
+    onChange: () => {},
+  }, clock);
+  jobs.attach(source);
+  return { jobs, statuses, clock };
+}
+
+describe('JobManager', () => {
+  it('runs jobs for one agent one after another', async () => {
+    const { source, requests } = controlledSource();
+    const { jobs, statuses, clock } = createManager(source);
+    const first = jobs.submit('restart', AGENT);
+    const second = jobs.submit('stop', AGENT);
+    await clock.advance(0);
+    expect(requests.map(r => r.request.operation)).toEqual(['restart']);
+
+    requests[0].resolve();
+    expect(await first).toMatchObject({ status: 'succeeded', progress: 100 });
+    await clock.advance(0);
+    requests[1].resolve();
+    expect(await second).toMatchObject({ status: 'succeeded' });
+    expect(statuses).toEqual(['active', 'offline']);
+  });
+
+  it('marks the agent errored only when the agent reports the failure', async () => {
+    const { source, requests } = controlledSource();
+    const { jobs, statuses, clock } = createManager(source);
+    const job = jobs.submit('deploy', AGENT, 'v2');
+    await clock.advance(0);
+
+    requests[0].reject(new Error('image pull failed'));
+    expect(await job).toMatchObject({ status: 'failed', error: 'image pull failed' });
+    expect(statuses).toEqual(['error']);
+  });
+
+  it('times out on its clock without blaming the agent', async () => {
+    const { source } = controlledSource();
+    const { jobs, statuses, clock } = createManager(source);
+    const job = jobs.submit('restart', AGENT);
+
+    await clock.advance(30000);
+    expect(await job).toMatchObject({ status: 'failed', error: 'Timed out after 30s', startedAt: 1000, finishedAt: 31000 });
+    expect(statuses).toEqual([]);
+  });
+
+  it('reports sources without a control channel', () => {
+    const { jobs } = createManager({ kind: 'sse', label: 'http://feed', connect: () => () => {} });
+    expect(jobs.unsupported()).toBe('Agent source http://feed does not support lifecycle operations');
+  });
+});
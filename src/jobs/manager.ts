@@ -0,0 +1,181 @@
+import { systemClock } from '../sim';
+import type { Clock } from '../sim';
+import type { AgentSource, LifecycleOperation } from '../sources';
+import type { Agent, LogEntry } from '../types';
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface Job {
+  id: string;
+  operation: LifecycleOperation;
+  agentId: string;
+  agentName: string;
+  version?: string;
+  status: JobStatus;
+  progress: number;
+  message?: string;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface JobHooks {
+  log: (agent: string, type: LogEntry['type'], message: string) => void;
+  setAgentStatus: (agentId: string, status: Agent['status']) => void;
+  onChange: (jobs: Job[]) => void;
+}
+
+const FINAL_STATUS: Record<LifecycleOperation, Agent['status']> = {
+  start: 'active',
+  stop: 'offline',
+  restart: 'active',
+  deploy: 'active',
+};
+
+const VERBS: Record<LifecycleOperation, string> = {
+  start: 'Start',
+  stop: 'Stop',
+  restart: 'Restart',
+  deploy: 'Deploy',
+};
+
+export class JobTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${Math.round(ms / 1000)}s`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+// Runs lifecycle operations through the attached source. Jobs for the same
+// agent are serialized: later ones stay pending until the agent is free.
+export class JobManager {
+  private jobs: Job[] = [];
+  private queues = new Map<string, Promise<unknown>>();
+  private waiters = new Map<string, Promise<Job>>();
+  private source: AgentSource | null = null;
+  private nextId = 1;
+
+  constructor(private hooks: JobHooks, private clock: Clock = systemClock, private timeoutMs = 30000, private keep = 200) {}
+
+  attach(source: AgentSource | null) {
+    this.source = source;
+  }
+
+  // Why jobs can't run on the attached source, or null when they can.
+  unsupported(): string | null {
+    return this.source?.run ? null : `Agent source ${this.source?.label ?? '(none)'} does not support lifecycle operations`;
+  }
+
+  list(): Job[] {
+    return [...this.jobs];
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  activeFor(agentId: string): Job | undefined {
+    return this.jobs.find(job => job.agentId === agentId && (job.status === 'running' || job.status === 'pending'));
+  }
+
+  submit(operation: LifecycleOperation, agent: Pick<Agent, 'id' | 'name'>, version?: string): Promise<Job> {
+    const job: Job = {
+      id: `job-${this.nextId++}`,
+      operation,
+      agentId: agent.id,
+      agentName: agent.name,
+      version,
+      status: 'pending',
+      progress: 0,
+      createdAt: this.clock.now(),
+    };
+    this.jobs = [...this.jobs, job];
+    this.prune();
+    this.emit();
+
+    const previous = this.queues.get(agent.id) ?? Promise.resolve();
+    const done = previous.then(() => this.execute(job.id));
+    this.queues.set(agent.id, done);
+    done.finally(() => {
+      if (this.queues.get(agent.id) === done) this.queues.delete(agent.id);
+    });
+    this.waiters.set(job.id, done);
+    return done;
+  }
+
+  wait(id: string): Promise<Job> | undefined {
+    return this.waiters.get(id);
+  }
+
+  private async execute(id: string): Promise<Job> {
+    const job = this.get(id)!;
+    const { operation, agentId, agentName, version } = job;
+    const verb = VERBS[operation];
+    const source = this.source;
+
+    this.update(id, { status: 'running', startedAt: this.clock.now() });
+    this.hooks.log(agentName, 'system', `${verb} ${version ? `${version} ` : ''}started (${id})`);
+
+    const controller = new AbortController();
+    let timer: number | undefined;
+    // Set when the agent itself reports the failure; a missing control
+    // channel, a timeout or a cancelled request says nothing about its health.
+    let agentFailed = false;
+    try {
+      if (!source?.run) throw new Error(`Agent source ${source?.label ?? '(none)'} does not support lifecycle operations`);
+      const timeout = new Promise<never>((_, reject) => {
+        timer = this.clock.setTimeout(() => {
+          const err = new JobTimeoutError(this.timeoutMs);
+          controller.abort(err);
+          reject(err);
+        }, this.timeoutMs);
+      });
+      await Promise.race([
+        source.run({ jobId: id, operation, agentId, version, signal: controller.signal }, (progress, message) => {
+          this.update(id, { progress, message });
+          this.hooks.log(agentName, 'info', `${message} (${progress}%)`);
+        }).catch(err => {
+          agentFailed = !controller.signal.aborted;
+          throw err;
+        }),
+        timeout,
+      ]);
+
+      this.hooks.setAgentStatus(agentId, FINAL_STATUS[operation]);
+      this.update(id, { status: 'succeeded', progress: 100, finishedAt: this.clock.now() });
+      this.hooks.log(agentName, 'success', `${verb} succeeded (${id})`);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      if (agentFailed) this.hooks.setAgentStatus(agentId, 'error');
+      this.update(id, { status: 'failed', error, finishedAt: this.clock.now() });
+      this.hooks.log(agentName, 'error', `${verb} failed (${id}): ${error}`);
+    } finally {
+      if (timer !== undefined) this.clock.clearTimeout(timer);
+    }
+    return this.get(id) ?? job;
+  }
+
+  // Drops the oldest finished jobs beyond `keep`; unfinished jobs always stay.
+  private prune() {
+    let excess = this.jobs.length - this.keep;
+    if (excess <= 0) return;
+    this.jobs = this.jobs.filter(job => {
+      if (excess > 0 && (job.status === 'succeeded' || job.status === 'failed')) {
+        excess--;
+        this.waiters.delete(job.id);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private update(id: string, patch: Partial<Job>) {
+    this.jobs = this.jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+    this.emit();
+  }
+
+  private emit() {
+    this.hooks.onChange(this.list());
+  }
+}
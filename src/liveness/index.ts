@@ -0,0 +1,2 @@
+export { LivenessMonitor, resolveHeartbeatTimeout } from './monitor';
+export type { Liveness, LivenessEvent, LivenessResult } from './monitor';
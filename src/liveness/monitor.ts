@@ -0,0 +1,98 @@
+import type { AgentPatch } from '../sources';
+import type { Agent, LogEntry } from '../types';
+
+export type Liveness = 'alive' | 'late' | 'offline';
+
+export interface LivenessEvent {
+  agent: string;
+  type: LogEntry['type'];
+  message: string;
+}
+
+export interface LivenessResult {
+  patches: AgentPatch[];
+  events: LivenessEvent[];
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export function resolveHeartbeatTimeout(): number {
+  const seconds = Number(import.meta.env?.VITE_HEARTBEAT_TIMEOUT);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_TIMEOUT_MS;
+}
+
+// Derives liveness from Agent.lastPing. A ping older than half the timeout is
+// "late" (warning only); older than the timeout marks the agent offline. Only
+// agents this monitor took offline are brought back when pings resume, so an
+// operator's `stop` is never undone.
+export class LivenessMonitor {
+  private states = new Map<string, Liveness>();
+  private statusBeforeOffline = new Map<string, Agent['status']>();
+
+  constructor(private timeoutMs = DEFAULT_TIMEOUT_MS) {}
+
+  get timeout(): number {
+    return this.timeoutMs;
+  }
+
+  set timeout(ms: number) {
+    this.timeoutMs = ms;
+  }
+
+  state(agentId: string): Liveness {
+    return this.states.get(agentId) ?? 'alive';
+  }
+
+  evaluate(agents: Agent[], now = Date.now()): LivenessResult {
+    const patches: AgentPatch[] = [];
+    const events: LivenessEvent[] = [];
+    const seen = new Set<string>();
+
+    for (const agent of agents) {
+      seen.add(agent.id);
+      let previous = this.state(agent.id);
+      let takenOffline = this.statusBeforeOffline.has(agent.id);
+      if (takenOffline && agent.status !== 'offline') {
+        // Someone else (e.g. a start job) changed the status since; start over.
+        this.statusBeforeOffline.delete(agent.id);
+        previous = 'alive';
+        takenOffline = false;
+      }
+      const age = now - agent.lastPing;
+      const seconds = Math.round(age / 1000);
+
+      if (agent.status === 'offline' && !takenOffline) {
+        this.states.set(agent.id, 'alive');
+        continue;
+      }
+
+      let next: Liveness = 'alive';
+      if (age > this.timeoutMs) next = 'offline';
+      else if (age > this.timeoutMs / 2) next = takenOffline ? 'offline' : 'late';
+      if (next === previous) continue;
+
+      this.states.set(agent.id, next);
+      if (next === 'offline') {
+        this.statusBeforeOffline.set(agent.id, agent.status);
+        patches.push({ id: agent.id, status: 'offline' });
+        events.push({ agent: agent.name, type: 'error', message: `No heartbeat for ${seconds}s. Marking agent offline.` });
+      } else if (next === 'late') {
+        events.push({ agent: agent.name, type: 'warning', message: `Heartbeat late: last seen ${seconds}s ago.` });
+      } else if (takenOffline) {
+        patches.push({ id: agent.id, status: this.statusBeforeOffline.get(agent.id) ?? 'active' });
+        this.statusBeforeOffline.delete(agent.id);
+        events.push({ agent: agent.name, type: 'success', message: 'Heartbeat resumed. Agent back online.' });
+      } else {
+        events.push({ agent: agent.name, type: 'info', message: 'Heartbeat recovered.' });
+      }
+    }
+
+    for (const id of this.states.keys()) {
+      if (!seen.has(id)) {
+        this.states.delete(id);
+        this.statusBeforeOffline.delete(id);
+      }
+    }
+    return { patches, events };
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEntry } from '../types';
+import { RingBuffer } from './buffer';
+import { FilteredLogView, bufferView, viewToArray } from './view';
+
+function entry(n: number): LogEntry {
+  return { id: `log-${n}`, timestamp: new Date(n), agent: n % 2 ? 'ODD' : 'EVEN', type: 'info', message: `line ${n}` };
+}
+
+function ids(entries: LogEntry[]) {
+  return entries.map(e => e.id);
+}
+
+describe('RingBuffer', () => {
+  it('overwrites the oldest items once full', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach(n => buffer.push(n));
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.at(0)).toBe(3);
+    expect(buffer.at(3)).toBeUndefined();
+    expect(buffer.total).toBe(5);
+  });
+
+  it('keeps the newest items when resized', () => {
+    const buffer = new RingBuffer<number>(5);
+    [1, 2, 3, 4, 5].forEach(n => buffer.push(n));
+    buffer.resize(2);
+    expect(buffer.toArray()).toEqual([4, 5]);
+    buffer.resize(4);
+    buffer.push(6);
+    expect(buffer.toArray()).toEqual([4, 5, 6]);
+  });
+
+  it('rejects invalid capacities', () => {
+    expect(() => new RingBuffer(0)).toThrow(RangeError);
+    expect(() => new RingBuffer<number>(2).resize(1.5)).toThrow(RangeError);
+  });
+});
+
+describe('log views', () => {
+  it('keep pointing at the same entries as newer lines arrive', () => {
+    const buffer = new RingBuffer<LogEntry>(4);
+    [1, 2, 3].forEach(n => buffer.push(entry(n)));
+    const view = bufferView(buffer);
+    buffer.push(entry(4));
+    buffer.push(entry(5));
+    expect(view.size).toBe(3);
+    expect(view.at(0)).toBeUndefined();
+    expect(ids(viewToArray(view))).toEqual(['log-2', 'log-3']);
+  });
+
+  it('filter incrementally and drop evicted matches', () => {
+    const buffer = new RingBuffer<LogEntry>(5);
+    [1, 2, 3, 4].forEach(n => buffer.push(entry(n)));
+    let tested = 0;
+    const filtered = new FilteredLogView(buffer, e => {
+      tested++;
+      return e.agent === 'ODD';
+    });
+    expect(ids(viewToArray(filtered.snapshot()))).toEqual(['log-1', 'log-3']);
+
+    [5, 6, 7, 8].forEach(n => buffer.push(entry(n)));
+    filtered.refresh();
+    expect(tested).toBe(8);
+    expect(ids(viewToArray(filtered.snapshot()))).toEqual(['log-5', 'log-7']);
+
+    buffer.clear();
+    filtered.refresh();
+    expect(filtered.size).toBe(0);
+  });
+});
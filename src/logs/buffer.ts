@@ -0,0 +1,79 @@
+// Fixed-capacity FIFO: pushing past capacity overwrites the oldest item, so
+// appends stay O(1) no matter how much history is retained.
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+  private pushed = 0;
+
+  constructor(private limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) throw new RangeError(`Invalid buffer capacity: ${limit}`);
+    this.items = new Array(limit);
+  }
+
+  get capacity(): number {
+    return this.limit;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  // Items ever pushed. The oldest retained item was pushed at
+  // total - size, which lets views address items by sequence number.
+  get total(): number {
+    return this.pushed;
+  }
+
+  push(item: T) {
+    this.pushed++;
+    if (this.count < this.limit) {
+      this.items[(this.start + this.count) % this.limit] = item;
+      this.count++;
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.limit;
+    }
+  }
+
+  at(index: number): T | undefined {
+    if (index < 0 || index >= this.count) return undefined;
+    return this.items[(this.start + index) % this.limit];
+  }
+
+  toArray(): T[] {
+    const out = new Array<T>(this.count);
+    for (let i = 0; i < this.count; i++) out[i] = this.items[(this.start + i) % this.limit] as T;
+    return out;
+  }
+
+  clear() {
+    this.items = new Array(this.limit);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  // Keeps the newest items that still fit.
+  resize(limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) throw new RangeError(`Invalid buffer capacity: ${limit}`);
+    const kept = this.toArray().slice(-limit);
+    this.limit = limit;
+    this.items = new Array(limit);
+    kept.forEach((item, i) => { this.items[i] = item; });
+    this.start = 0;
+    this.count = kept.length;
+  }
+}
+
+export const DEFAULT_LOG_RETENTION = 50000;
+// Beyond this the buffer's backing array gets too big to allocate.
+export const MAX_LOG_RETENTION = 1000000;
+
+export function isLogRetention(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_LOG_RETENTION;
+}
+
+export function resolveLogRetention(): number {
+  const value = Number(import.meta.env?.VITE_LOG_RETENTION);
+  return isLogRetention(value) ? value : DEFAULT_LOG_RETENTION;
+}
@@ -0,0 +1,62 @@
+import type { LogEntry } from '../types';
+
+export type ExportFormat = 'text' | 'jsonl' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['text', 'jsonl', 'csv'];
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = { text: 'txt', jsonl: 'jsonl', csv: 'csv' };
+const MIME_TYPES: Record<ExportFormat, string> = {
+  text: 'text/plain',
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv',
+};
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatLogs(logs: LogEntry[], format: ExportFormat): string {
+  switch (format) {
+    case 'text':
+      return logs.map(log =>
+        `${log.timestamp.toISOString()} ${log.type.toUpperCase().padEnd(7)} [${log.agent}] ${log.message}`
+      ).join('\n') + '\n';
+    case 'jsonl':
+      return logs.map(log => JSON.stringify({
+        timestamp: log.timestamp.toISOString(),
+        agent: log.agent,
+        type: log.type,
+        message: log.message,
+      })).join('\n') + '\n';
+    case 'csv':
+      return ['timestamp,agent,type,message', ...logs.map(log =>
+        [log.timestamp.toISOString(), log.agent, log.type, log.message].map(csvField).join(',')
+      )].join('\r\n') + '\r\n';
+  }
+}
+
+export function exportLogs(logs: LogEntry[], format: ExportFormat, now = new Date()): ExportFile {
+  const stamp = now.toISOString().replace(/:/g, '-').replace(/\.\d+Z$/, 'Z');
+  return {
+    filename: `clawbot-transcript-${stamp}.${EXTENSIONS[format]}`,
+    mimeType: MIME_TYPES[format],
+    content: formatLogs(logs, format),
+  };
+}
+
+export function downloadFile({ filename, mimeType, content }: ExportFile) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEntry } from '../types';
+import { EMPTY_FILTER, compileFilter, highlight } from './filter';
+
+function entry(agent: string, type: LogEntry['type'], message: string): LogEntry {
+  return { id: message, timestamp: new Date(0), agent, type, message };
+}
+
+const LOGS = [
+  entry('ALPHA', 'info', 'Scan complete'),
+  entry('ALPHA', 'error', 'Disk full on /var'),
+  entry('BRAVO', 'warning', 'Latency 250ms'),
+  entry('SYSTEM', 'info', 'scan queued'),
+];
+
+function matching(filter: Partial<typeof EMPTY_FILTER>, selected: string | null = null) {
+  const compiled = compileFilter({ ...EMPTY_FILTER, ...filter }, selected);
+  return LOGS.filter(compiled.test).map(e => e.message);
+}
+
+describe('compileFilter', () => {
+  it('matches everything when empty', () => {
+    expect(compileFilter(EMPTY_FILTER).active).toBe(false);
+    expect(matching({})).toHaveLength(LOGS.length);
+  });
+
+  it('combines type, agent and text conditions', () => {
+    expect(matching({ types: ['error', 'warning'] })).toEqual(['Disk full on /var', 'Latency 250ms']);
+    expect(matching({ agent: 'alpha', query: 'disk' })).toEqual(['Disk full on /var']);
+    expect(matching({ query: 'scan', caseSensitive: true })).toEqual(['scan queued']);
+  });
+
+  it('treats the query literally unless regex is on', () => {
+    expect(matching({ query: '\\d+ms' })).toEqual([]);
+    expect(matching({ query: '\\d+ms', regex: true })).toEqual(['Latency 250ms']);
+  });
+
+  it('matches nothing and reports an invalid regex', () => {
+    const compiled = compileFilter({ ...EMPTY_FILTER, query: '(', regex: true });
+    expect(compiled.error).not.toBeNull();
+    expect(LOGS.filter(compiled.test)).toEqual([]);
+  });
+
+  it('follows the selected agent when asked to', () => {
+    expect(matching({ agent: 'ALPHA', followSelection: true }, 'BRAVO')).toEqual(['Latency 250ms']);
+    expect(matching({ agent: 'ALPHA', followSelection: true }, null)).toHaveLength(2);
+  });
+});
+
+describe('highlight', () => {
+  it('splits text around every match', () => {
+    const { pattern } = compileFilter({ ...EMPTY_FILTER, query: 'a' });
+    expect(highlight('Banana', pattern).map(s => s.match ? `[${s.text}]` : s.text).join('')).toBe('B[a]n[a]n[a]');
+  });
+});
@@ -0,0 +1,95 @@
+import type { LogEntry } from '../types';
+
+export const LOG_TYPES: LogEntry['type'][] = ['info', 'success', 'warning', 'error', 'system'];
+
+// Log authors that are not agents.
+export const LOG_SOURCES = ['SYSTEM', 'USER', 'ALERT'];
+
+export interface LogFilter {
+  types: LogEntry['type'][];
+  agent: string | null;
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  followSelection: boolean;
+}
+
+export const EMPTY_FILTER: LogFilter = {
+  types: [],
+  agent: null,
+  query: '',
+  regex: false,
+  caseSensitive: false,
+  followSelection: false,
+};
+
+export interface CompiledFilter {
+  pattern: RegExp | null;
+  error: string | null;
+  active: boolean;
+  test(entry: LogEntry): boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function buildPattern(query: string, regex: boolean, caseSensitive: boolean): RegExp | null {
+  if (!query) return null;
+  return new RegExp(regex ? query : escapeRegExp(query), caseSensitive ? 'g' : 'gi');
+}
+
+// An invalid regex matches nothing rather than everything, and is reported
+// through `error` so the filter bar can flag it.
+export function compileFilter(filter: LogFilter, selectedAgent: string | null = null): CompiledFilter {
+  let pattern: RegExp | null = null;
+  let error: string | null = null;
+  try {
+    pattern = buildPattern(filter.query, filter.regex, filter.caseSensitive);
+  } catch (err) {
+    error = (err as Error).message;
+  }
+
+  const agent = (filter.followSelection && selectedAgent) || filter.agent;
+  const agentKey = agent?.toLowerCase() ?? null;
+  const types = new Set(filter.types);
+
+  return {
+    pattern,
+    error,
+    active: types.size > 0 || agentKey !== null || filter.query !== '',
+    test(entry) {
+      if (error) return false;
+      if (types.size > 0 && !types.has(entry.type)) return false;
+      if (agentKey !== null && entry.agent.toLowerCase() !== agentKey) return false;
+      if (pattern) {
+        pattern.lastIndex = 0;
+        return pattern.test(entry.message);
+      }
+      return true;
+    },
+  };
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+export function highlight(text: string, pattern: RegExp | null): TextSegment[] {
+  if (!pattern) return [{ text, match: false }];
+  const segments: TextSegment[] = [];
+  let last = 0;
+  pattern.lastIndex = 0;
+  for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+    if (m[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (m.index > last) segments.push({ text: text.slice(last, m.index), match: false });
+    segments.push({ text: m[0], match: true });
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
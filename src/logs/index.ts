@@ -0,0 +1,7 @@
+export { DEFAULT_LOG_RETENTION, MAX_LOG_RETENTION, RingBuffer, isLogRetention, resolveLogRetention } from './buffer';
+export { EXPORT_FORMATS, downloadFile, exportLogs, formatLogs } from './export';
+export type { ExportFile, ExportFormat } from './export';
+export { EMPTY_FILTER, LOG_SOURCES, LOG_TYPES, buildPattern, compileFilter, highlight } from './filter';
+export type { CompiledFilter, LogFilter, TextSegment } from './filter';
+export { FilteredLogView, bufferView, viewToArray } from './view';
+export type { LogView } from './view';
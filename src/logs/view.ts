@@ -0,0 +1,76 @@
+import type { LogEntry } from '../types';
+import type { RingBuffer } from './buffer';
+
+// Read-only access to a run of log entries, so views can render the rows
+// they show without copying the whole buffer.
+export interface LogView {
+  readonly size: number;
+  at(index: number): LogEntry | undefined;
+}
+
+// Indexes stay on the same entries after newer lines arrive; entries that
+// have since been evicted read as undefined.
+export function bufferView(buffer: RingBuffer<LogEntry>): LogView {
+  const size = buffer.size;
+  const first = buffer.total - size;
+  return {
+    size,
+    at: index => index < 0 || index >= size ? undefined : buffer.at(first + index - (buffer.total - buffer.size)),
+  };
+}
+
+// The entries of a buffer that pass a test, kept up to date incrementally:
+// refresh() only tests lines pushed since the last call and drops matches
+// the buffer has evicted.
+export class FilteredLogView {
+  // Sequence numbers (see RingBuffer.total) of matching entries, oldest
+  // first; those before `first` have been evicted.
+  private matches: number[] = [];
+  private first = 0;
+  private scanned: number;
+
+  constructor(private buffer: RingBuffer<LogEntry>, private test: (entry: LogEntry) => boolean) {
+    this.scanned = buffer.total - buffer.size;
+    this.refresh();
+  }
+
+  get size(): number {
+    return this.matches.length - this.first;
+  }
+
+  refresh() {
+    const oldest = this.buffer.total - this.buffer.size;
+    for (let seq = Math.max(this.scanned, oldest); seq < this.buffer.total; seq++) {
+      const entry = this.buffer.at(seq - oldest);
+      if (entry && this.test(entry)) this.matches.push(seq);
+    }
+    this.scanned = this.buffer.total;
+    while (this.first < this.matches.length && this.matches[this.first] < oldest) this.first++;
+    // Compacting copies, so snapshots taken earlier keep their own array.
+    if (this.first > 1024 && this.first * 2 > this.matches.length) {
+      this.matches = this.matches.slice(this.first);
+      this.first = 0;
+    }
+  }
+
+  // A view of the matches as of now; later refreshes don't move it.
+  snapshot(): LogView {
+    const { buffer, matches, first } = this;
+    const size = this.size;
+    return {
+      size,
+      at: index => index < 0 || index >= size
+        ? undefined
+        : buffer.at(matches[first + index] - (buffer.total - buffer.size)),
+    };
+  }
+}
+
+export function viewToArray(view: LogView, from = 0): LogEntry[] {
+  const out: LogEntry[] = [];
+  for (let i = Math.max(0, from); i < view.size; i++) {
+    const entry = view.at(i);
+    if (entry) out.push(entry);
+  }
+  return out;
+}
@@ -0,0 +1,2 @@
+export { MacroError, MacroStore } from './store';
+export type { Macros } from './store';
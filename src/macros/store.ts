@@ -0,0 +1,74 @@
+export interface Macros {
+  aliases: Record<string, string>;
+  scripts: Record<string, string>;
+}
+
+export class MacroError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MacroError';
+  }
+}
+
+const NAME_PATTERN = /^[A-Za-z][\w.-]*$/;
+
+// User-defined aliases and named scripts. Both are plain command lines; the
+// runner expands aliases in place and runs scripts as a chain.
+export class MacroStore {
+  private aliases = new Map<string, string>();
+  private scripts = new Map<string, string>();
+
+  constructor(initial?: Partial<Macros>, private onChange: (macros: Macros) => void = () => {}) {
+    Object.entries(initial?.aliases ?? {}).forEach(([name, body]) => this.aliases.set(name.toLowerCase(), body));
+    Object.entries(initial?.scripts ?? {}).forEach(([name, body]) => this.scripts.set(name.toLowerCase(), body));
+  }
+
+  alias(name: string): string | undefined {
+    return this.aliases.get(name.toLowerCase());
+  }
+
+  script(name: string): string | undefined {
+    return this.scripts.get(name.toLowerCase());
+  }
+
+  setAlias(name: string, body: string) {
+    this.aliases.set(this.validate(name, body), body.trim());
+    this.emit();
+  }
+
+  setScript(name: string, body: string) {
+    this.scripts.set(this.validate(name, body), body.trim());
+    this.emit();
+  }
+
+  removeAlias(name: string): boolean {
+    const removed = this.aliases.delete(name.toLowerCase());
+    if (removed) this.emit();
+    return removed;
+  }
+
+  removeScript(name: string): boolean {
+    const removed = this.scripts.delete(name.toLowerCase());
+    if (removed) this.emit();
+    return removed;
+  }
+
+  toJSON(): Macros {
+    return {
+      aliases: Object.fromEntries([...this.aliases].sort(([a], [b]) => a.localeCompare(b))),
+      scripts: Object.fromEntries([...this.scripts].sort(([a], [b]) => a.localeCompare(b))),
+    };
+  }
+
+  private validate(name: string, body: string): string {
+    if (!NAME_PATTERN.test(name)) {
+      throw new MacroError(`Invalid name "${name}": start with a letter, then letters, digits, '-', '_' or '.'`);
+    }
+    if (!body.trim()) throw new MacroError(`Definition for ${name} is empty`);
+    return name.toLowerCase();
+  }
+
+  private emit() {
+    this.onChange(this.toJSON());
+  }
+}
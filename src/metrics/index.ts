@@ -0,0 +1,2 @@
+export { DEFAULT_TIERS, FLEET_SERIES, TimeSeriesStore, agentSeries, computeStats, sampleAgents } from './store';
+export type { Point, SeriesStats, Tier } from './store';
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { TimeSeriesStore, computeStats } from './store';
+
+const tiers = [
+  { resolutionMs: 0, retentionMs: 10000 },
+  { resolutionMs: 10000, retentionMs: 60000 },
+];
+
+describe('TimeSeriesStore', () => {
+  it('serves short windows from raw samples', () => {
+    const store = new TimeSeriesStore(tiers);
+    for (let t = 0; t <= 20000; t += 1000) store.record('cpu', t / 1000, t);
+    expect(store.query('cpu', 5000, 20000).map(p => p.value)).toEqual([15, 16, 17, 18, 19, 20]);
+  });
+
+  it('downsamples longer windows into averaged buckets with min and max', () => {
+    const store = new TimeSeriesStore(tiers);
+    for (let t = 0; t < 30000; t += 1000) store.record('cpu', t / 1000, t);
+    expect(store.query('cpu', 30000, 29000)).toEqual([
+      { time: 0, value: 4.5, min: 0, max: 9 },
+      { time: 10000, value: 14.5, min: 10, max: 19 },
+      // The bucket still being filled is included.
+      { time: 20000, value: 24.5, min: 20, max: 29 },
+    ]);
+  });
+
+  it('summarises points', () => {
+    expect(computeStats([])).toBeNull();
+    expect(computeStats([
+      { time: 0, value: 10, min: 5, max: 12 },
+      { time: 1, value: 30, min: 25, max: 40 },
+    ])).toEqual({ latest: 30, min: 5, max: 40, p95: 30 });
+  });
+});
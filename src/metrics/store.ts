@@ -0,0 +1,160 @@
+import { RingBuffer } from '../logs';
+import type { Agent } from '../types';
+
+export interface Point {
+  time: number;
+  value: number;
+  min: number;
+  max: number;
+}
+
+export interface Tier {
+  resolutionMs: number;
+  retentionMs: number;
+}
+
+export interface SeriesStats {
+  latest: number;
+  min: number;
+  max: number;
+  p95: number;
+}
+
+// Raw samples for the last two minutes, 10s buckets for 20 minutes and 1m
+// buckets for two hours: enough for the 1m/15m/1h chart windows.
+export const DEFAULT_TIERS: Tier[] = [
+  { resolutionMs: 0, retentionMs: 2 * 60000 },
+  { resolutionMs: 10000, retentionMs: 20 * 60000 },
+  { resolutionMs: 60000, retentionMs: 2 * 3600000 },
+];
+
+const MIN_SAMPLE_INTERVAL_MS = 1000;
+
+interface Bucket {
+  start: number;
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+}
+
+class Series {
+  private buffers: RingBuffer<Point>[];
+  private buckets: (Bucket | null)[];
+
+  constructor(private tiers: Tier[]) {
+    this.buffers = tiers.map(tier =>
+      new RingBuffer<Point>(Math.ceil(tier.retentionMs / Math.max(tier.resolutionMs, MIN_SAMPLE_INTERVAL_MS)) + 1));
+    this.buckets = tiers.map(() => null);
+  }
+
+  add(time: number, value: number) {
+    this.tiers.forEach((tier, i) => {
+      if (tier.resolutionMs === 0) {
+        this.buffers[i].push({ time, value, min: value, max: value });
+        return;
+      }
+      const start = time - (time % tier.resolutionMs);
+      let bucket = this.buckets[i];
+      if (bucket && bucket.start !== start) {
+        this.buffers[i].push(toPoint(bucket));
+        bucket = null;
+      }
+      if (!bucket) {
+        bucket = { start, sum: 0, count: 0, min: value, max: value };
+        this.buckets[i] = bucket;
+      }
+      bucket.sum += value;
+      bucket.count++;
+      bucket.min = Math.min(bucket.min, value);
+      bucket.max = Math.max(bucket.max, value);
+    });
+  }
+
+  // Points from the finest tier that still covers the whole window,
+  // including the bucket currently being filled.
+  query(windowMs: number, now: number): Point[] {
+    let index = this.tiers.findIndex(tier => tier.retentionMs >= windowMs);
+    if (index === -1) index = this.tiers.length - 1;
+    const from = now - windowMs;
+    const points = this.buffers[index].toArray().filter(p => p.time >= from);
+    const bucket = this.buckets[index];
+    if (bucket && bucket.start >= from) points.push(toPoint(bucket));
+    return points;
+  }
+}
+
+function toPoint(bucket: Bucket): Point {
+  return { time: bucket.start, value: bucket.sum / bucket.count, min: bucket.min, max: bucket.max };
+}
+
+export function computeStats(points: Point[]): SeriesStats | null {
+  if (points.length === 0) return null;
+  const values = points.map(p => p.value).sort((a, b) => a - b);
+  return {
+    latest: points[points.length - 1].value,
+    min: Math.min(...points.map(p => p.min)),
+    max: Math.max(...points.map(p => p.max)),
+    p95: values[Math.min(values.length - 1, Math.ceil(values.length * 0.95) - 1)],
+  };
+}
+
+export class TimeSeriesStore {
+  private series = new Map<string, Series>();
+
+  constructor(private tiers: Tier[] = DEFAULT_TIERS) {}
+
+  record(key: string, value: number, time = Date.now()) {
+    let series = this.series.get(key);
+    if (!series) {
+      series = new Series(this.tiers);
+      this.series.set(key, series);
+    }
+    series.add(time, value);
+  }
+
+  query(key: string, windowMs: number, now = Date.now()): Point[] {
+    return this.series.get(key)?.query(windowMs, now) ?? [];
+  }
+
+  keys(): string[] {
+    return [...this.series.keys()];
+  }
+
+  delete(key: string) {
+    this.series.delete(key);
+  }
+}
+
+export const FLEET_SERIES = {
+  cpu: 'fleet.cpu',
+  memory: 'fleet.memory',
+  active: 'fleet.active',
+  errors: 'fleet.errors',
+} as const;
+
+export function agentSeries(agentId: string, metric: 'cpu' | 'memory'): string {
+  return `agent.${agentId}.${metric}`;
+}
+
+// Records one sample of every fleet and per-agent series, and drops the
+// series of agents that have left the fleet.
+export function sampleAgents(store: TimeSeriesStore, agents: Agent[], time = Date.now()) {
+  const avg = (pick: (a: Agent) => number) => agents.length ? agents.reduce((acc, a) => acc + pick(a), 0) / agents.length : 0;
+  store.record(FLEET_SERIES.cpu, avg(a => a.cpu), time);
+  store.record(FLEET_SERIES.memory, avg(a => a.memory), time);
+  store.record(FLEET_SERIES.active, agents.filter(a => a.status === 'active').length, time);
+  store.record(FLEET_SERIES.errors, agents.filter(a => a.status === 'error').length, time);
+
+  const live = new Set<string>();
+  for (const agent of agents) {
+    for (const metric of ['cpu', 'memory'] as const) {
+      const key = agentSeries(agent.id, metric);
+      live.add(key);
+      store.record(key, agent[metric], time);
+    }
+  }
+  for (const key of store.keys()) {
+    if (key.startsWith('agent.') && !live.has(key)) store.delete(key);
+  }
+}
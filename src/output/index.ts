@@ -0,0 +1,4 @@
+export { PIPE_STAGES, PipeError, applyPipes, parseStage, renderTable, transformTable } from './pipes';
+export type { PipeStage } from './pipes';
+export { formatTable, table } from './table';
+export type { Cell, Column, OutputLine, Row, Table } from './table';
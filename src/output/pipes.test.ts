@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { PipeError, parseStage, renderTable, transformTable } from './pipes';
+import { table } from './table';
+
+const agents = table(['name', 'status', 'cpu'], [
+  { name: 'NEXUS-7', status: 'active', cpu: 91 },
+  { name: 'CIPHER-9', status: 'error', cpu: 12 },
+  { name: 'PHANTOM-X', status: 'active', cpu: 45 },
+  { name: 'AXIOM-2', status: 'idle', cpu: 88 },
+]);
+
+function pipe(...stages: string[]) {
+  return transformTable(agents, stages.map(stage => parseStage(stage.split(' '))));
+}
+
+describe('pipes', () => {
+  it('filters with where, comparing numbers as numbers', () => {
+    expect(pipe('where cpu>80').rows.map(r => r.name)).toEqual(['NEXUS-7', 'AXIOM-2']);
+    expect(pipe('where status=active cpu<50').rows.map(r => r.name)).toEqual(['PHANTOM-X']);
+    expect(pipe('where name~phan').rows.map(r => r.name)).toEqual(['PHANTOM-X']);
+  });
+
+  it('sorts by several keys and takes the head', () => {
+    expect(pipe('sort status -cpu', 'head 3').rows.map(r => r.name)).toEqual(['NEXUS-7', 'PHANTOM-X', 'CIPHER-9']);
+    expect(pipe('tail 1').rows.map(r => r.name)).toEqual(['AXIOM-2']);
+  });
+
+  it('counts rows and renders json', () => {
+    expect(pipe('where status=active', 'count').rows).toEqual([{ count: 2 }]);
+    const stages = [parseStage(['head', '1']), parseStage(['json'])];
+    expect(renderTable(transformTable(agents, stages), stages)).toEqual([
+      { type: 'info', text: '[{"name":"NEXUS-7","status":"active","cpu":91}]' },
+    ]);
+  });
+
+  it('rejects unknown columns and misplaced json', () => {
+    expect(() => pipe('where ram>1')).toThrow(PipeError);
+    expect(() => pipe('json', 'head')).toThrow('json must be the last stage');
+    expect(() => parseStage(['explode'])).toThrow('Unknown pipe stage: explode');
+  });
+});
@@ -0,0 +1,160 @@
+import { formatTable } from './table';
+import type { Cell, OutputLine, Table } from './table';
+
+export class PipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipeError';
+  }
+}
+
+type Operator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+
+interface Condition {
+  key: string;
+  op: Operator;
+  value: string;
+}
+
+export type PipeStage =
+  | { name: 'sort'; keys: { key: string; descending: boolean }[] }
+  | { name: 'where'; conditions: Condition[] }
+  | { name: 'head' | 'tail'; count: number }
+  | { name: 'json' }
+  | { name: 'count' };
+
+export const PIPE_STAGES: { name: PipeStage['name']; usage: string; summary: string }[] = [
+  { name: 'where', usage: 'where <col><op><value>...', summary: 'Keep rows matching all conditions (=, !=, >, >=, <, <=, ~ contains)' },
+  { name: 'sort', usage: 'sort [-]<col>...', summary: 'Sort rows by columns; a leading - sorts descending' },
+  { name: 'head', usage: 'head [n]', summary: 'Keep the first n rows (default 10)' },
+  { name: 'tail', usage: 'tail [n]', summary: 'Keep the last n rows (default 10)' },
+  { name: 'count', usage: 'count', summary: 'Replace the rows with their count' },
+  { name: 'json', usage: 'json', summary: 'Print the rows as JSON instead of a table' },
+];
+
+const CONDITION = /([\w.]+)\s*(>=|<=|!=|=|>|<|~)\s*(\S+)/y;
+
+function parseConditions(text: string): Condition[] {
+  const conditions: Condition[] = [];
+  let index = 0;
+  while (index < text.length) {
+    if (text[index] === ' ') {
+      index++;
+      continue;
+    }
+    CONDITION.lastIndex = index;
+    const match = CONDITION.exec(text);
+    if (!match) throw new PipeError(`Invalid condition near "${text.slice(index)}"; expected e.g. cpu>80 or status=error`);
+    conditions.push({ key: match[1], op: match[2] as Operator, value: match[3] });
+    index = CONDITION.lastIndex;
+  }
+  if (conditions.length === 0) throw new PipeError('where needs at least one condition, e.g. where status=error');
+  return conditions;
+}
+
+function parseCount(name: string, args: string[]): number {
+  if (args.length === 0) return 10;
+  const count = Number(args[0]);
+  if (args.length > 1 || !Number.isInteger(count) || count < 0) throw new PipeError(`${name} expects a row count, e.g. ${name} 3`);
+  return count;
+}
+
+export function parseStage(tokens: string[]): PipeStage {
+  const [name = '', ...args] = tokens;
+  switch (name.toLowerCase()) {
+    case 'where':
+      return { name: 'where', conditions: parseConditions(args.join(' ')) };
+    case 'sort':
+      if (args.length === 0) throw new PipeError('sort needs a column, e.g. sort -cpu');
+      return { name: 'sort', keys: args.map(arg => ({ key: arg.replace(/^[-+]/, ''), descending: arg.startsWith('-') })) };
+    case 'head':
+    case 'tail':
+      return { name: name.toLowerCase() as 'head' | 'tail', count: parseCount(name.toLowerCase(), args) };
+    case 'json':
+    case 'count':
+      if (args.length > 0) throw new PipeError(`${name} takes no arguments`);
+      return { name: name.toLowerCase() as 'json' | 'count' };
+    default:
+      throw new PipeError(
+        name ? `Unknown pipe stage: ${name}. Available: ${PIPE_STAGES.map(s => s.name).join(', ')}.` : 'Empty pipe stage',
+      );
+  }
+}
+
+function resolveKey(data: Table, key: string): string {
+  const name = key.toLowerCase();
+  const column = data.columns.find(c => c.key.toLowerCase() === name || c.label?.toLowerCase() === name);
+  if (!column) throw new PipeError(`Unknown column: ${key}. Columns: ${data.columns.map(c => c.key).join(', ')}.`);
+  return column.key;
+}
+
+function compareCells(a: Cell, b: Cell): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function matches(cell: Cell, op: Operator, value: string): boolean {
+  const text = cell === null ? '' : String(cell).toLowerCase();
+  const target = value.toLowerCase();
+  if (op === '~') return text.includes(target);
+  const numeric = typeof cell === 'number' && value.trim() !== '' && !Number.isNaN(Number(value));
+  const order = numeric ? (cell as number) - Number(value) : text.localeCompare(target, undefined, { numeric: true });
+  switch (op) {
+    case '=': return order === 0;
+    case '!=': return order !== 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+  }
+}
+
+function applyStage(data: Table, stage: PipeStage): Table {
+  switch (stage.name) {
+    case 'where': {
+      const conditions = stage.conditions.map(c => ({ ...c, key: resolveKey(data, c.key) }));
+      return { ...data, rows: data.rows.filter(row => conditions.every(c => matches(row[c.key] ?? null, c.op, c.value))) };
+    }
+    case 'sort': {
+      const keys = stage.keys.map(k => ({ ...k, key: resolveKey(data, k.key) }));
+      const rows = [...data.rows].sort((a, b) => {
+        for (const { key, descending } of keys) {
+          const order = compareCells(a[key] ?? null, b[key] ?? null);
+          if (order !== 0) return descending && a[key] !== null && b[key] !== null ? -order : order;
+        }
+        return 0;
+      });
+      return { ...data, rows };
+    }
+    case 'head':
+      return { ...data, rows: data.rows.slice(0, stage.count) };
+    case 'tail':
+      return { ...data, rows: stage.count === 0 ? [] : data.rows.slice(-stage.count) };
+    case 'count':
+      return { columns: [{ key: 'count' }], rows: [{ count: data.rows.length }] };
+    case 'json':
+      return data;
+  }
+}
+
+// Runs the stages left to right. 'json' only changes how the result is
+// rendered, so it must come last.
+export function transformTable(data: Table, stages: PipeStage[]): Table {
+  let current = data;
+  for (const [i, stage] of stages.entries()) {
+    if (stage.name === 'json' && i !== stages.length - 1) throw new PipeError('json must be the last stage');
+    current = applyStage(current, stage);
+  }
+  return current;
+}
+
+export function renderTable(data: Table, stages: PipeStage[]): OutputLine[] {
+  return stages[stages.length - 1]?.name === 'json'
+    ? [{ type: 'info', text: JSON.stringify(data.rows) }]
+    : formatTable(data);
+}
+
+export function applyPipes(data: Table, stages: PipeStage[]): OutputLine[] {
+  return renderTable(transformTable(data, stages), stages);
+}
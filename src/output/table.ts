@@ -0,0 +1,61 @@
+import type { LogEntry } from '../types';
+
+export type Cell = string | number | boolean | null;
+export type Row = Record<string, Cell>;
+
+export interface Column {
+  key: string;
+  label?: string;
+  align?: 'left' | 'right';
+  // Display-only formatting; sorting and filtering see the raw value.
+  format?: (value: Cell) => string;
+}
+
+export interface Table {
+  columns: Column[];
+  rows: Row[];
+  // Colours a row in the terminal, e.g. red for agents in error.
+  rowType?: (row: Row) => LogEntry['type'];
+  // Shown instead of the header when there are no rows.
+  empty?: string;
+}
+
+export interface OutputLine {
+  type: LogEntry['type'];
+  text: string;
+}
+
+const GAP = '  ';
+
+export function table(columns: (string | Column)[], rows: Row[], options: Pick<Table, 'rowType' | 'empty'> = {}): Table {
+  return { columns: columns.map(c => typeof c === 'string' ? { key: c } : c), rows, ...options };
+}
+
+function cellText(column: Column, value: Cell): string {
+  if (column.format) return column.format(value);
+  if (value === null) return '-';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  return String(value);
+}
+
+// Renders a table as space-aligned lines: an upper-case header, then one
+// line per row. Numbers are right-aligned unless a column says otherwise.
+export function formatTable(data: Table): OutputLine[] {
+  if (data.rows.length === 0) return [{ type: 'info', text: data.empty ?? '(no rows)' }];
+
+  const cells = data.rows.map(row => data.columns.map(column => cellText(column, row[column.key] ?? null)));
+  const headers = data.columns.map(column => (column.label ?? column.key).toUpperCase());
+  const widths = headers.map((header, i) => Math.max(header.length, ...cells.map(line => line[i].length)));
+  const alignRight = data.columns.map(column =>
+    column.align ? column.align === 'right' : data.rows.every(row => typeof row[column.key] === 'number'));
+  const line = (values: string[]) => values
+    .map((value, i) => i === values.length - 1 && !alignRight[i]
+      ? value
+      : alignRight[i] ? value.padStart(widths[i]) : value.padEnd(widths[i]))
+    .join(GAP);
+
+  return [
+    { type: 'system', text: line(headers) },
+    ...data.rows.map((row, i) => ({ type: data.rowType?.(row) ?? 'info', text: line(cells[i]) })),
+  ];
+}
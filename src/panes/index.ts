@@ -0,0 +1,4 @@
+export { MAX_PANES, PaneError, closePane, cycleFocus, defaultLayout, findPane, focusPane, splitPane, updatePane } from './layout';
+export type { Pane, PaneLayout, SplitDirection } from './layout';
+export { PaneLayoutStore } from './store';
+export type { PaneStorage } from './store';
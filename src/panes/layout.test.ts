@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PANES, PaneError, closePane, cycleFocus, defaultLayout, splitPane } from './layout';
+
+describe('pane layout', () => {
+  it('opens the new pane after the split one and focuses it', () => {
+    let layout = splitPane(defaultLayout(), 'P1');
+    layout = splitPane({ ...layout, focused: 'P1' }, 'P1');
+    expect(layout.panes.map(p => p.id)).toEqual(['P1', 'P3', 'P2']);
+    expect(layout.focused).toBe('P3');
+  });
+
+  it('applies a split direction to the whole layout', () => {
+    const layout = splitPane(splitPane(defaultLayout(), 'P1'), 'P2', 'vertical');
+    expect(layout.direction).toBe('vertical');
+    expect(layout.panes).toHaveLength(3);
+  });
+
+  it(`holds at most ${MAX_PANES} panes and always keeps one`, () => {
+    let layout = defaultLayout();
+    while (layout.panes.length < MAX_PANES) layout = splitPane(layout, layout.focused);
+    expect(() => splitPane(layout, layout.focused)).toThrow(PaneError);
+
+    while (layout.panes.length > 1) layout = closePane(layout, layout.focused);
+    expect(() => closePane(layout, 'P1')).toThrow('The last pane cannot be closed.');
+  });
+
+  it('cycles focus in both directions', () => {
+    const layout = splitPane(splitPane(defaultLayout(), 'P1'), 'P2');
+    expect(cycleFocus(layout, 1).focused).toBe('P1');
+    expect(cycleFocus(layout, -1).focused).toBe('P2');
+  });
+});
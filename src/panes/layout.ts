@@ -0,0 +1,84 @@
+import { EMPTY_FILTER } from '../logs';
+import type { LogFilter } from '../logs';
+
+// One terminal in the tiling layout. Each has its own view of the shared
+// log and its own default target for commands typed into it.
+export interface Pane {
+  id: string;
+  title: string;
+  filter: LogFilter;
+  target: string | null;
+}
+
+// 'horizontal' puts panes side by side; 'vertical' stacks them. Layouts are
+// single-axis: the direction applies to every pane, there is no nesting.
+export type SplitDirection = 'horizontal' | 'vertical';
+
+export interface PaneLayout {
+  panes: Pane[];
+  direction: SplitDirection;
+  focused: string;
+}
+
+export const MAX_PANES = 4;
+
+export class PaneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaneError';
+  }
+}
+
+export function defaultLayout(filter: LogFilter = EMPTY_FILTER): PaneLayout {
+  return { panes: [{ id: 'P1', title: 'main', filter, target: null }], direction: 'horizontal', focused: 'P1' };
+}
+
+function nextPaneId(panes: Pane[]): string {
+  const max = Math.max(0, ...panes.map(p => Number(p.id.slice(1)) || 0));
+  return `P${max + 1}`;
+}
+
+// Accepts an id (P2) or a 1-based position (2).
+export function findPane(layout: PaneLayout, ref: string): Pane | undefined {
+  const position = Number(ref);
+  return Number.isInteger(position)
+    ? layout.panes[position - 1]
+    : layout.panes.find(p => p.id.toLowerCase() === ref.toLowerCase());
+}
+
+// Opens a pane after `id` with the same target and an empty filter, and
+// focuses it. Giving a direction re-lays out the whole row or stack along it,
+// not just the split pane.
+export function splitPane(layout: PaneLayout, id: string, direction = layout.direction): PaneLayout {
+  if (layout.panes.length >= MAX_PANES) throw new PaneError(`At most ${MAX_PANES} panes fit on screen.`);
+  const index = layout.panes.findIndex(p => p.id === id);
+  if (index < 0) throw new PaneError(`Unknown pane: ${id}`);
+  const pane: Pane = { id: nextPaneId(layout.panes), title: 'shell', filter: EMPTY_FILTER, target: layout.panes[index].target };
+  const panes = [...layout.panes.slice(0, index + 1), pane, ...layout.panes.slice(index + 1)];
+  return { panes, direction, focused: pane.id };
+}
+
+// Focus moves to the pane before the closed one.
+export function closePane(layout: PaneLayout, id: string): PaneLayout {
+  const index = layout.panes.findIndex(p => p.id === id);
+  if (index < 0) throw new PaneError(`Unknown pane: ${id}`);
+  if (layout.panes.length === 1) throw new PaneError('The last pane cannot be closed.');
+  const panes = layout.panes.filter(p => p.id !== id);
+  const focused = layout.focused === id ? panes[Math.max(0, index - 1)].id : layout.focused;
+  return { ...layout, panes, focused };
+}
+
+export function updatePane(layout: PaneLayout, id: string, update: (pane: Pane) => Pane): PaneLayout {
+  return { ...layout, panes: layout.panes.map(p => p.id === id ? update(p) : p) };
+}
+
+export function focusPane(layout: PaneLayout, id: string): PaneLayout {
+  return layout.panes.some(p => p.id === id) ? { ...layout, focused: id } : layout;
+}
+
+// Steps focus through the panes, wrapping at either end.
+export function cycleFocus(layout: PaneLayout, step: 1 | -1): PaneLayout {
+  const index = layout.panes.findIndex(p => p.id === layout.focused);
+  const next = (index + step + layout.panes.length) % layout.panes.length;
+  return { ...layout, focused: layout.panes[next].id };
+}
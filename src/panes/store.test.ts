@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { defaultLayout } from './layout';
+import { PaneLayoutStore } from './store';
+import type { PaneStorage } from './store';
+
+function memoryStorage(): PaneStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+  };
+}
+
+describe('PaneLayoutStore', () => {
+  it('keeps a layout per user', () => {
+    const storage = memoryStorage();
+    const layout = { ...defaultLayout(), direction: 'vertical' as const };
+    new PaneLayoutStore(storage).save('admin', layout);
+
+    const store = new PaneLayoutStore(storage);
+    expect(store.load('admin')).toEqual(layout);
+    expect(store.load('viewer')).toBeNull();
+  });
+
+  it('clears every saved layout on reset and stops saving', () => {
+    const storage = memoryStorage();
+    const store = new PaneLayoutStore(storage);
+    store.save('admin', defaultLayout());
+    store.save('viewer', defaultLayout());
+
+    store.reset();
+    store.save('admin', defaultLayout());
+
+    expect(storage.items.size).toBe(0);
+    expect(new PaneLayoutStore(storage).load('admin')).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { EMPTY_FILTER } from '../logs';
+import type { LogFilter } from '../logs';
+import { MAX_PANES } from './layout';
+import type { Pane, PaneLayout } from './layout';
+
+export interface PaneStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+const STORAGE_KEY = 'clawbot.panes';
+
+function defaultStorage(): PaneStorage | undefined {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function decodePane(value: unknown): Pane | null {
+  if (!isObject(value) || typeof value.id !== 'string' || !/^P\d+$/.test(value.id)) return null;
+  return {
+    id: value.id,
+    title: typeof value.title === 'string' ? value.title : 'shell',
+    filter: { ...EMPTY_FILTER, ...(isObject(value.filter) ? value.filter as Partial<LogFilter> : {}) },
+    target: typeof value.target === 'string' ? value.target : null,
+  };
+}
+
+function decodeLayout(value: unknown): PaneLayout | null {
+  if (!isObject(value) || !Array.isArray(value.panes)) return null;
+  const panes = value.panes.map(decodePane).filter((p): p is Pane => p !== null).slice(0, MAX_PANES);
+  if (panes.length === 0) return null;
+  return {
+    panes,
+    direction: value.direction === 'vertical' ? 'vertical' : 'horizontal',
+    focused: panes.some(p => p.id === value.focused) ? value.focused as string : panes[0].id,
+  };
+}
+
+// Pane layouts saved per user, so 'su' brings up that user's panes.
+export class PaneLayoutStore {
+  private disabled = false;
+
+  constructor(private storage: PaneStorage | undefined = defaultStorage()) {}
+
+  load(user: string): PaneLayout | null {
+    return decodeLayout(this.read()[user]);
+  }
+
+  save(user: string, layout: PaneLayout) {
+    if (this.disabled) return;
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify({ ...this.read(), [user]: layout }));
+    } catch {
+      // Storage full or disabled; the layout just won't survive a reload.
+    }
+  }
+
+  // Clears every user's saved layout and stops further saves, like
+  // SessionStore.reset().
+  reset() {
+    this.disabled = true;
+    try {
+      this.storage?.removeItem(STORAGE_KEY);
+    } catch {
+      // Nothing saved to clear.
+    }
+  }
+
+  private read(): Record<string, unknown> {
+    try {
+      const saved = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? '{}');
+      return isObject(saved) ? saved : {};
+    } catch {
+      return {};
+    }
+  }
+}
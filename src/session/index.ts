@@ -0,0 +1,2 @@
+export { DEFAULT_LAYOUT, MAX_SAVED_LOGS, SessionStore } from './store';
+export type { SavedSession, SessionLayout, SessionState, SessionStorage } from './store';
@@ -0,0 +1,132 @@
+import { EMPTY_FILTER, LOG_TYPES } from '../logs';
+import type { LogFilter } from '../logs';
+import type { Macros } from '../macros';
+import { decodeAgent } from '../sources';
+import type { Agent, LogEntry } from '../types';
+
+const STORAGE_KEY = 'clawbot.session';
+const VERSION = 1;
+export const MAX_SAVED_LOGS = 1000;
+
+export interface SessionLayout {
+  metricsWindowMs: number;
+}
+
+export const DEFAULT_LAYOUT: SessionLayout = {
+  metricsWindowMs: 60000,
+};
+
+export interface SessionState {
+  selectedAgent: string | null;
+  logRetention: number;
+  logs: LogEntry[];
+  layout: SessionLayout;
+  macros: Macros;
+  // Only saved for the simulator; remote sources own their own registry.
+  agents?: Agent[];
+}
+
+export interface SavedSession extends SessionState {
+  savedAt: number;
+  // Sessions saved before per-user panes had a single filter; it seeds the
+  // first pane when the user has no saved layout.
+  logFilter?: LogFilter;
+}
+
+export interface SessionStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+function defaultStorage(): SessionStorage | undefined {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function decodeLog(value: unknown): LogEntry | null {
+  if (!isObject(value) || typeof value.agent !== 'string' || typeof value.message !== 'string') return null;
+  const timestamp = new Date(value.timestamp as string);
+  if (Number.isNaN(timestamp.getTime())) return null;
+  return {
+    id: typeof value.id === 'string' ? value.id : `log-${timestamp.getTime()}-${Math.random()}`,
+    timestamp,
+    agent: value.agent,
+    type: LOG_TYPES.includes(value.type as LogEntry['type']) ? value.type as LogEntry['type'] : 'info',
+    message: value.message,
+  };
+}
+
+function decodeRecord(value: unknown): Record<string, string> {
+  if (!isObject(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+}
+
+// Dashboard state saved to localStorage so a reload picks up where the
+// operator left off. Anything unreadable is dropped rather than failing boot.
+export class SessionStore {
+  private disabled = false;
+
+  constructor(private storage: SessionStorage | undefined = defaultStorage()) {}
+
+  load(): SavedSession | null {
+    let saved: unknown;
+    try {
+      saved = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? 'null');
+    } catch {
+      return null;
+    }
+    if (!isObject(saved) || saved.version !== VERSION) return null;
+
+    const logs = Array.isArray(saved.logs) ? saved.logs.map(decodeLog).filter((l): l is LogEntry => l !== null) : [];
+    // Saved agents go through the same checks as a source snapshot. If any is
+    // unreadable the saved fleet is dropped and the live one is used instead.
+    const agents = Array.isArray(saved.agents) ? saved.agents.map(decodeAgent) : undefined;
+    return {
+      savedAt: typeof saved.savedAt === 'number' ? saved.savedAt : 0,
+      selectedAgent: typeof saved.selectedAgent === 'string' ? saved.selectedAgent : null,
+      logFilter: isObject(saved.logFilter) ? { ...EMPTY_FILTER, ...saved.logFilter } : undefined,
+      logRetention: typeof saved.logRetention === 'number' ? saved.logRetention : 0,
+      logs,
+      layout: { ...DEFAULT_LAYOUT, ...(isObject(saved.layout) ? saved.layout : {}) },
+      macros: isObject(saved.macros)
+        ? { aliases: decodeRecord(saved.macros.aliases), scripts: decodeRecord(saved.macros.scripts) }
+        : { aliases: {}, scripts: {} },
+      agents: agents?.length && agents.every((a): a is Agent => a !== null) ? agents : undefined,
+    };
+  }
+
+  // Returns false when storage is unavailable or full.
+  save(state: SessionState): boolean {
+    if (this.disabled || !this.storage) return false;
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify({
+        version: VERSION,
+        savedAt: Date.now(),
+        ...state,
+        logs: state.logs.slice(-MAX_SAVED_LOGS),
+      }));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Clears the saved session and stops further saves, so the page can be
+  // reloaded without the unload handler writing the old state back.
+  reset() {
+    this.disabled = true;
+    try {
+      this.storage?.removeItem(STORAGE_KEY);
+    } catch {
+      // Nothing saved to clear.
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock } from './clock';
+
+describe('ManualClock', () => {
+  it('runs due timers in order and stops at the target time', async () => {
+    const clock = new ManualClock(1000);
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push(`b@${clock.now()}`), 200);
+    clock.setTimeout(() => fired.push(`a@${clock.now()}`), 100);
+    clock.setTimeout(() => fired.push('late'), 1000);
+
+    await clock.advance(500);
+
+    expect(fired).toEqual(['a@1100', 'b@1200']);
+    expect(clock.now()).toBe(1500);
+    expect(clock.pending).toBe(1);
+  });
+
+  it('repeats intervals until cleared', async () => {
+    const clock = new ManualClock();
+    let ticks = 0;
+    const id = clock.setInterval(() => ticks++, 1000);
+
+    await clock.advance(3500);
+    expect(ticks).toBe(3);
+
+    clock.clearInterval(id);
+    await clock.advance(5000);
+    expect(ticks).toBe(3);
+  });
+
+  it('runs timers scheduled by promise chains woken during the advance', async () => {
+    const clock = new ManualClock();
+    const sleep = (ms: number) => new Promise<void>(resolve => clock.setTimeout(resolve, ms));
+    const steps: number[] = [];
+    void (async () => {
+      for (let i = 0; i < 3; i++) {
+        await sleep(100);
+        steps.push(clock.now());
+      }
+    })();
+
+    await clock.advance(1000);
+    expect(steps).toEqual([100, 200, 300]);
+  });
+});
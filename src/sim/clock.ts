@@ -0,0 +1,94 @@
+// Time source for the simulator and the command center (jobs, tasks, sleep).
+// The system clock is the default; tests swap in a ManualClock and
+// fast-forward it.
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+  setInterval(callback: () => void, ms: number): number;
+  clearInterval(id: number): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => globalThis.setTimeout(callback, ms) as unknown as number,
+  clearTimeout: (id) => globalThis.clearTimeout(id),
+  setInterval: (callback, ms) => globalThis.setInterval(callback, ms) as unknown as number,
+  clearInterval: (id) => globalThis.clearInterval(id),
+};
+
+interface Timer {
+  id: number;
+  due: number;
+  callback: () => void;
+  repeatMs?: number;
+}
+
+// Yields to the event loop so promise chains woken by a timer can schedule
+// their next timer before we look for it.
+function settle(): Promise<void> {
+  return new Promise(resolve => globalThis.setTimeout(resolve, 0));
+}
+
+// A clock that only moves when told to. advance() runs every timer that
+// falls due on the way, in order, so a minute of simulation takes
+// milliseconds:
+//
+//   const clock = new ManualClock();
+//   const source = new SimulatorSource({ seed: 42, clock, scenario });
+//   source.connect(listener);
+//   await clock.advance(60000);
+export class ManualClock implements Clock {
+  private time: number;
+  private timers: Timer[] = [];
+  private nextId = 1;
+
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    return this.add(callback, ms);
+  }
+
+  clearTimeout(id: number) {
+    this.timers = this.timers.filter(timer => timer.id !== id);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    return this.add(callback, ms, Math.max(1, ms));
+  }
+
+  clearInterval(id: number) {
+    this.clearTimeout(id);
+  }
+
+  get pending(): number {
+    return this.timers.length;
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    await settle();
+    for (;;) {
+      const next = this.timers.reduce<Timer | undefined>((a, b) => !a || b.due < a.due ? b : a, undefined);
+      if (!next || next.due > target) break;
+      this.time = next.due;
+      if (next.repeatMs) next.due += next.repeatMs;
+      else this.clearTimeout(next.id);
+      next.callback();
+      await settle();
+    }
+    this.time = target;
+  }
+
+  private add(callback: () => void, ms: number, repeatMs?: number): number {
+    const id = this.nextId++;
+    this.timers.push({ id, due: this.time + Math.max(0, ms), callback, repeatMs });
+    return id;
+  }
+}
@@ -0,0 +1,6 @@
+export { ManualClock, systemClock } from './clock';
+export type { Clock } from './clock';
+export { MAX_SEED, Random, isSeed, randomSeed } from './random';
+export { ScenarioError, describeEvent, parseScenario } from './scenario';
+export type { Scenario, ScenarioEvent } from './scenario';
+export { SCENARIOS, findScenario } from './scenarios';
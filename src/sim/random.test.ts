@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SEED, Random, isSeed } from './random';
+
+describe('Random', () => {
+  it('replays the same sequence for the same seed', () => {
+    const a = new Random(42);
+    const b = new Random(42);
+    const draws = Array.from({ length: 100 }, () => a.next());
+    expect(Array.from({ length: 100 }, () => b.next())).toEqual(draws);
+  });
+
+  it('gives a different sequence for a different seed', () => {
+    const a = new Random(1);
+    const b = new Random(2);
+    expect([a.next(), a.next(), a.next()]).not.toEqual([b.next(), b.next(), b.next()]);
+  });
+
+  it('keeps int() within [0, max)', () => {
+    const random = new Random(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = random.int(6);
+      expect(Number.isInteger(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(6);
+    }
+  });
+});
+
+describe('isSeed', () => {
+  it('accepts 32-bit unsigned integers only', () => {
+    expect(isSeed(0)).toBe(true);
+    expect(isSeed(MAX_SEED)).toBe(true);
+    expect(isSeed(MAX_SEED + 1)).toBe(false);
+    expect(isSeed(-1)).toBe(false);
+    expect(isSeed(1.5)).toBe(false);
+  });
+});
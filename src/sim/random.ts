@@ -0,0 +1,43 @@
+// Small seedable PRNG (mulberry32). Not for anything security-related; the
+// point is that the same seed replays the same simulation.
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform in [0, 1), like Math.random.
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Whole number in [0, max).
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
+
+export const MAX_SEED = 0xffffffff;
+
+export function isSeed(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+}
+
+// For runs that didn't ask for a seed; the simulator reports the one it
+// picked so the run can be replayed.
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
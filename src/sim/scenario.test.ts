@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ScenarioError, parseScenario } from './scenario';
+
+describe('parseScenario', () => {
+  it('reads durations, upper-cases agents and sorts events by time', () => {
+    const scenario = parseScenario({
+      name: 'mixed',
+      seed: 3,
+      events: [
+        { at: '1m', type: 'status', agent: 'cipher-9', status: 'offline' },
+        { at: 30, type: 'ramp', agent: 'phantom-x', to: 100, over: '10s' },
+        { at: '500ms', type: 'logs', count: 5 },
+      ],
+    });
+
+    expect(scenario.seed).toBe(3);
+    expect(scenario.events).toEqual([
+      { at: 500, type: 'logs', agent: null, count: 5, level: 'error', message: 'Simulated error', over: 0 },
+      { at: 30000, type: 'ramp', agent: 'PHANTOM-X', metric: 'cpu', to: 100, over: 10000 },
+      { at: 60000, type: 'status', agent: 'CIPHER-9', status: 'offline' },
+    ]);
+  });
+
+  it('names the scenario after the file when it has no name', () => {
+    expect(parseScenario({ events: [] }, 'from-file').name).toBe('from-file');
+  });
+
+  it('points at the offending field', () => {
+    expect(() => parseScenario({ events: [{ at: 'soon', type: 'status', agent: 'X', status: 'idle' }] }))
+      .toThrow(new ScenarioError('events[0].at: expected a duration like 30s or 2m, got "soon"'));
+    expect(() => parseScenario({ events: [{ at: 0, type: 'ramp', agent: 'X', to: 150 }] }))
+      .toThrow('events[0].to: expected a percentage from 0 to 100');
+    expect(() => parseScenario({ events: [{ at: 0, type: 'explode' }] }))
+      .toThrow('events[0].type: expected ramp, status or logs');
+    expect(() => parseScenario({ seed: -1, events: [] })).toThrow(ScenarioError);
+  });
+});
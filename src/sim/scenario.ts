@@ -0,0 +1,133 @@
+import { formatDuration, parseDuration } from '../format';
+import type { Agent, LogEntry } from '../types';
+import { isSeed } from './random';
+
+// Times are milliseconds from when the scenario was loaded.
+export type ScenarioEvent =
+  // Moves a metric linearly to `to` over `over` ms, then holds it there.
+  | { at: number; type: 'ramp'; agent: string; metric: 'cpu' | 'memory'; to: number; over: number }
+  | { at: number; type: 'status'; agent: string; status: Agent['status'] }
+  // `count` log lines spread over `over` ms; from random agents when
+  // `agent` is null.
+  | { at: number; type: 'logs'; agent: string | null; count: number; level: LogEntry['type']; message: string; over: number };
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  // Reseeds the simulator when loaded, so the whole run replays exactly.
+  seed?: number;
+  events: ScenarioEvent[];
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+const STATUSES: Agent['status'][] = ['active', 'idle', 'error', 'offline'];
+const LEVELS: LogEntry['type'][] = ['info', 'success', 'warning', 'error', 'system'];
+const MAX_LOG_BURST = 10000;
+
+type Draft = Record<string, unknown>;
+
+function isObject(value: unknown): value is Draft {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Durations are "500ms", "30s", "2m"..., or a number of seconds.
+function duration(value: unknown, where: string): number {
+  const ms = typeof value === 'number' ? value * 1000 : typeof value === 'string' ? parseDuration(value) : NaN;
+  if (!(ms >= 0)) throw new ScenarioError(`${where}: expected a duration like 30s or 2m, got ${JSON.stringify(value)}`);
+  return ms;
+}
+
+function text(value: unknown, where: string): string {
+  if (typeof value !== 'string' || !value.trim()) throw new ScenarioError(`${where}: expected a non-empty string`);
+  return value.trim();
+}
+
+function oneOf<T extends string>(value: unknown, choices: T[], where: string): T {
+  if (!choices.includes(value as T)) throw new ScenarioError(`${where}: expected one of ${choices.join(', ')}`);
+  return value as T;
+}
+
+function parseEvent(draft: unknown, where: string): ScenarioEvent {
+  if (!isObject(draft)) throw new ScenarioError(`${where}: expected an object`);
+  const at = duration(draft.at, `${where}.at`);
+  switch (draft.type) {
+    case 'ramp': {
+      const to = draft.to;
+      if (typeof to !== 'number' || to < 0 || to > 100) throw new ScenarioError(`${where}.to: expected a percentage from 0 to 100`);
+      return {
+        at,
+        type: 'ramp',
+        agent: text(draft.agent, `${where}.agent`).toUpperCase(),
+        metric: oneOf(draft.metric ?? 'cpu', ['cpu', 'memory'], `${where}.metric`),
+        to,
+        over: draft.over === undefined ? 0 : duration(draft.over, `${where}.over`),
+      };
+    }
+    case 'status':
+      return {
+        at,
+        type: 'status',
+        agent: text(draft.agent, `${where}.agent`).toUpperCase(),
+        status: oneOf(draft.status, STATUSES, `${where}.status`),
+      };
+    case 'logs': {
+      const count = draft.count ?? 1;
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_LOG_BURST) {
+        throw new ScenarioError(`${where}.count: expected a whole number from 1 to ${MAX_LOG_BURST}`);
+      }
+      const level = oneOf(draft.level ?? 'error', LEVELS, `${where}.level`);
+      return {
+        at,
+        type: 'logs',
+        agent: draft.agent === undefined ? null : text(draft.agent, `${where}.agent`).toUpperCase(),
+        count,
+        level,
+        message: draft.message === undefined ? `Simulated ${level}` : text(draft.message, `${where}.message`),
+        over: draft.over === undefined ? 0 : duration(draft.over, `${where}.over`),
+      };
+    }
+    default:
+      throw new ScenarioError(`${where}.type: expected ramp, status or logs`);
+  }
+}
+
+// Validates a scenario written as JSON or a TS object literal:
+//
+//   { "name": "cpu-spike", "seed": 42, "events": [
+//       { "at": "30s", "type": "ramp", "agent": "PHANTOM-X", "metric": "cpu", "to": 100, "over": "10s" },
+//       { "at": "60s", "type": "status", "agent": "CIPHER-9", "status": "offline" },
+//       { "at": "90s", "type": "logs", "count": 50, "level": "error", "over": "5s" } ] }
+export function parseScenario(input: unknown, fallbackName = 'custom'): Scenario {
+  if (!isObject(input)) throw new ScenarioError('Scenario must be an object with an "events" list');
+  if (!Array.isArray(input.events)) throw new ScenarioError('events: expected a list');
+  const seed = input.seed;
+  if (seed !== undefined && (typeof seed !== 'number' || !isSeed(seed))) {
+    throw new ScenarioError('seed: expected a whole number from 0 to 4294967295');
+  }
+  return {
+    name: input.name === undefined ? fallbackName : text(input.name, 'name'),
+    description: typeof input.description === 'string' ? input.description : undefined,
+    seed,
+    events: input.events
+      .map((event, i) => parseEvent(event, `events[${i}]`))
+      .sort((a, b) => a.at - b.at),
+  };
+}
+
+export function describeEvent(event: ScenarioEvent): string {
+  const over = 'over' in event && event.over > 0 ? ` over ${formatDuration(event.over)}` : '';
+  switch (event.type) {
+    case 'ramp':
+      return `${event.agent} ${event.metric} ramps to ${event.to}%${over}`;
+    case 'status':
+      return `${event.agent} goes ${event.status}`;
+    case 'logs':
+      return `${event.count} ${event.level} log(s) from ${event.agent ?? 'random agents'}${over}`;
+  }
+}
@@ -0,0 +1,39 @@
+import { parseScenario } from './scenario';
+import type { Scenario } from './scenario';
+
+// Scenarios available by name to 'sim load'.
+export const SCENARIOS: Scenario[] = [
+  {
+    name: 'cpu-spike',
+    description: 'PHANTOM-X pegs its CPU',
+    events: [{ at: '30s', type: 'ramp', agent: 'PHANTOM-X', metric: 'cpu', to: 100, over: '10s' }],
+  },
+  {
+    name: 'outage',
+    description: 'CIPHER-9 drops off the mesh',
+    events: [
+      { at: '50s', type: 'logs', agent: 'CIPHER-9', count: 3, level: 'warning', message: 'Heartbeat delayed' },
+      { at: '60s', type: 'status', agent: 'CIPHER-9', status: 'offline' },
+    ],
+  },
+  {
+    name: 'error-burst',
+    description: 'A burst of 50 error logs across the fleet',
+    events: [{ at: '10s', type: 'logs', count: 50, level: 'error', message: 'Unhandled exception in worker', over: '5s' }],
+  },
+  {
+    name: 'bad-day',
+    description: 'All of the above, replayed from seed 7',
+    seed: 7,
+    events: [
+      { at: '10s', type: 'logs', count: 50, level: 'error', message: 'Unhandled exception in worker', over: '5s' },
+      { at: '30s', type: 'ramp', agent: 'PHANTOM-X', metric: 'cpu', to: 100, over: '10s' },
+      { at: '45s', type: 'ramp', agent: 'NEXUS-7', metric: 'memory', to: 95, over: '30s' },
+      { at: '60s', type: 'status', agent: 'CIPHER-9', status: 'offline' },
+    ],
+  },
+].map(scenario => parseScenario(scenario));
+
+export function findScenario(name: string): Scenario | undefined {
+  return SCENARIOS.find(s => s.name === name.toLowerCase());
+}
@@ -0,0 +1,56 @@
+import { SimulatorSource } from './simulator';
+import type { SimulatorOptions } from './simulator';
+import { EventSourceSource, WebSocketSource } from './remote';
+import type { Agent } from '../types';
+import type { AgentPatch, AgentSource } from './types';
+
+export { SimulatorSource } from './simulator';
+export { decodeAgent } from './remote';
+export type { ScenarioProgress, SimulatorOptions } from './simulator';
+export type {
+  AgentPatch,
+  AgentSource,
+  AgentSourceEvent,
+  ConnectionState,
+  FleetChange,
+  LifecycleOperation,
+  LifecycleRequest,
+  ProgressReporter,
+  SourceLog,
+  TaskRequest,
+} from './types';
+
+// Accepts "simulator", a ws(s):// URL, or an http(s):// URL (optionally
+// prefixed with "sse:") for a server-sent event stream. Simulator options are
+// ignored for remote sources.
+export function createAgentSource(spec: string, simulator: SimulatorOptions = {}): AgentSource {
+  const value = spec.trim();
+  if (!value || value === 'simulator') return new SimulatorSource(simulator);
+  if (/^wss?:\/\//i.test(value)) return new WebSocketSource(value);
+  if (/^sse:/i.test(value)) return new EventSourceSource(value.slice(4));
+  if (/^https?:\/\//i.test(value)) return new EventSourceSource(value);
+  throw new Error(`Unsupported agent source: ${spec}`);
+}
+
+// ?source= on the page URL takes precedence over VITE_AGENT_SOURCE.
+export function resolveSourceSpec(): string {
+  const param = new URLSearchParams(window.location.search).get('source');
+  return param ?? import.meta.env?.VITE_AGENT_SOURCE ?? 'simulator';
+}
+
+export function applyAgentPatches(agents: Agent[], patches: AgentPatch[]): Agent[] {
+  const byId = new Map(patches.map(patch => [patch.id, patch]));
+  const next = agents.map(agent => {
+    const patch = byId.get(agent.id);
+    if (!patch) return agent;
+    byId.delete(agent.id);
+    return { ...agent, ...patch };
+  });
+  // Patches for unknown ids only become agents once they carry a name.
+  byId.forEach(patch => {
+    if (patch.name) {
+      next.push({ status: 'offline', task: '', cpu: 0, memory: 0, uptime: 0, lastPing: 0, ...patch, name: patch.name });
+    }
+  });
+  return next;
+}
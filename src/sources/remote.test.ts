@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { decodeMessage } from './remote';
+
+const agent = { id: 'a1', name: 'ALPHA', status: 'active', task: 'idle', cpu: 10, memory: 20, uptime: 5, lastPing: 0 };
+
+function decodeLog(timestamp: unknown) {
+  const event = decodeMessage(JSON.stringify({ type: 'log', log: { agent: 'ALPHA', type: 'info', message: 'hi', timestamp } }));
+  return event?.type === 'log' ? event.log : null;
+}
+
+describe('decodeMessage', () => {
+  it('drops incomplete agents from snapshots', () => {
+    const event = decodeMessage(JSON.stringify({ type: 'snapshot', agents: [agent, { ...agent, id: 'a2', cpu: 'high' }, null] }));
+    expect(event).toEqual({ type: 'snapshot', agents: [agent] });
+  });
+
+  it('keeps only well-typed fields of updates', () => {
+    const event = decodeMessage(JSON.stringify({ type: 'update', agents: [{ id: 'a1', cpu: 55, status: 'melting' }, { cpu: 1 }] }));
+    expect(event).toEqual({ type: 'update', agents: [{ id: 'a1', cpu: 55 }] });
+  });
+
+  it('reads log timestamps as ISO strings or epoch milliseconds', () => {
+    expect(decodeLog('2024-01-02T03:04:05.000Z')?.timestamp?.toISOString()).toBe('2024-01-02T03:04:05.000Z');
+    expect(decodeLog(1700000000000)?.timestamp?.getTime()).toBe(1700000000000);
+  });
+
+  it('leaves invalid log timestamps unset', () => {
+    expect(decodeLog('yesterday-ish')).toMatchObject({ message: 'hi', timestamp: undefined });
+    expect(decodeLog(1e20)?.timestamp).toBeUndefined();
+    expect(decodeLog({})?.timestamp).toBeUndefined();
+  });
+
+  it('rejects malformed messages', () => {
+    expect(decodeMessage('not json')).toBeNull();
+    expect(decodeMessage(JSON.stringify({ type: 'remove', agentIds: [1] }))).toBeNull();
+    expect(decodeMessage(JSON.stringify({ type: 'unknown' }))).toBeNull();
+  });
+});
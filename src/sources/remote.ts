@@ -0,0 +1,254 @@
+import type { Agent, LogEntry } from '../types';
+import type {
+  AgentPatch,
+  AgentSource,
+  AgentSourceEvent,
+  AgentSourceListener,
+  FleetChange,
+  LifecycleRequest,
+  ProgressReporter,
+  TaskRequest,
+} from './types';
+
+const LOG_TYPES: LogEntry['type'][] = ['info', 'success', 'warning', 'error', 'system'];
+const MAX_RECONNECT_DELAY = 30000;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+const AGENT_STATUSES: Agent['status'][] = ['active', 'idle', 'error', 'offline'];
+const AGENT_NUMBERS = ['cpu', 'memory', 'uptime', 'lastPing'] as const;
+
+function isAgentPatch(value: unknown): value is AgentPatch {
+  return isObject(value) && typeof value.id === 'string';
+}
+
+// Keeps only the well-typed fields of an update, so a bad value for one
+// field doesn't reach the cards while the rest of the patch still applies.
+function decodePatch(value: AgentPatch): AgentPatch {
+  const patch: AgentPatch = { id: value.id };
+  if (typeof value.name === 'string') patch.name = value.name;
+  if (AGENT_STATUSES.includes(value.status as Agent['status'])) patch.status = value.status;
+  if (typeof value.task === 'string') patch.task = value.task;
+  AGENT_NUMBERS.forEach(key => {
+    if (Number.isFinite(value[key])) patch[key] = value[key];
+  });
+  if (typeof value.group === 'string') patch.group = value.group;
+  if (Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string')) patch.tags = value.tags;
+  return patch;
+}
+
+// A snapshot replaces the fleet, so every agent in it must be complete;
+// returns null for anything missing or mistyped.
+export function decodeAgent(value: unknown): Agent | null {
+  if (!isAgentPatch(value)) return null;
+  const agent = decodePatch(value);
+  if (agent.name === undefined || agent.status === undefined || agent.task === undefined) return null;
+  if (AGENT_NUMBERS.some(key => agent[key] === undefined)) return null;
+  return agent as Agent;
+}
+
+// Wire format: one JSON object per message, shaped like AgentSourceEvent with
+// log timestamps as ISO strings or epoch milliseconds.
+export function decodeMessage(data: string): AgentSourceEvent | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isObject(message)) return null;
+
+  switch (message.type) {
+    case 'snapshot':
+    case 'update': {
+      if (!Array.isArray(message.agents)) return null;
+      // Invalid entries are dropped rather than failing the whole message.
+      return message.type === 'snapshot'
+        ? { type: 'snapshot', agents: message.agents.map(decodeAgent).filter((a): a is Agent => a !== null) }
+        : { type: 'update', agents: message.agents.filter(isAgentPatch).map(decodePatch) };
+    }
+    case 'remove': {
+      if (!Array.isArray(message.agentIds) || !message.agentIds.every(id => typeof id === 'string')) return null;
+      return { type: 'remove', agentIds: message.agentIds };
+    }
+    case 'log': {
+      const log = message.log;
+      if (!isObject(log) || typeof log.agent !== 'string' || typeof log.message !== 'string') return null;
+      const type = LOG_TYPES.includes(log.type as LogEntry['type']) ? log.type as LogEntry['type'] : 'info';
+      // An unparseable timestamp falls back to the time of arrival.
+      const date = typeof log.timestamp === 'string' || typeof log.timestamp === 'number'
+        ? new Date(log.timestamp)
+        : undefined;
+      const timestamp = date && !Number.isNaN(date.getTime()) ? date : undefined;
+      return { type: 'log', log: { agent: log.agent, type, message: log.message, timestamp } };
+    }
+    default:
+      return null;
+  }
+}
+
+export interface JobMessage {
+  id: string;
+  status: 'running' | 'succeeded' | 'failed';
+  progress?: number;
+  message?: string;
+  error?: string;
+  result?: string;
+}
+
+// Replies to lifecycle commands and tasks:
+// { type: 'job', id, status, progress?, message?, error?, result? }.
+export function decodeJobMessage(data: string): JobMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isObject(message) || message.type !== 'job' || typeof message.id !== 'string') return null;
+  if (message.status !== 'running' && message.status !== 'succeeded' && message.status !== 'failed') return null;
+  return {
+    id: message.id,
+    status: message.status,
+    progress: typeof message.progress === 'number' ? message.progress : undefined,
+    message: typeof message.message === 'string' ? message.message : undefined,
+    error: typeof message.error === 'string' ? message.error : undefined,
+    result: typeof message.result === 'string' ? message.result : undefined,
+  };
+}
+
+interface PendingJob {
+  report: ProgressReporter;
+  resolve: (result?: string) => void;
+  reject: (err: Error) => void;
+}
+
+export class WebSocketSource implements AgentSource {
+  readonly kind = 'websocket';
+  readonly label: string;
+  private socket: WebSocket | null = null;
+  private pending = new Map<string, PendingJob>();
+  private nextFleetId = 1;
+
+  constructor(private url: string) {
+    this.label = url;
+  }
+
+  run({ jobId, operation, agentId, version, signal }: LifecycleRequest, report: ProgressReporter): Promise<void> {
+    return this.request(jobId, { type: 'command', id: jobId, operation, agentId, version }, signal, report).then(() => undefined);
+  }
+
+  runTask({ taskId, agentId, title, payload, signal }: TaskRequest, report: ProgressReporter): Promise<string> {
+    return this.request(taskId, { type: 'task', id: taskId, agentId, title, payload }, signal, report)
+      .then(result => result ?? '');
+  }
+
+  manage(change: FleetChange, signal: AbortSignal): Promise<void> {
+    const id = `fleet-${this.nextFleetId++}`;
+    return this.request(id, { type: 'fleet', id, ...change }, signal, () => {}).then(() => undefined);
+  }
+
+  private request(id: string, message: object, signal: AbortSignal, report: ProgressReporter): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+      const socket = this.socket;
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        reject(new Error(`Not connected to ${this.label}`));
+        return;
+      }
+      const settle = () => {
+        this.pending.delete(id);
+        signal.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        settle();
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        report,
+        resolve: (result) => { settle(); resolve(result); },
+        reject: (err) => { settle(); reject(err); },
+      });
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  private handleJobMessage(job: JobMessage) {
+    const pending = this.pending.get(job.id);
+    if (!pending) return;
+    if (job.status === 'running') {
+      pending.report(job.progress ?? 0, job.message ?? 'running');
+    } else if (job.status === 'succeeded') {
+      pending.resolve(job.result);
+    } else {
+      pending.reject(new Error(job.error ?? 'Operation failed'));
+    }
+  }
+
+  connect(listener: AgentSourceListener): () => void {
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = 1000;
+    let closed = false;
+
+    const open = () => {
+      listener({ type: 'connection', state: 'connecting' });
+      socket = new WebSocket(this.url);
+      this.socket = socket;
+      socket.onopen = () => {
+        retryDelay = 1000;
+        listener({ type: 'connection', state: 'connected' });
+      };
+      socket.onmessage = (e) => {
+        if (typeof e.data !== 'string') return;
+        const job = decodeJobMessage(e.data);
+        if (job) {
+          this.handleJobMessage(job);
+          return;
+        }
+        const event = decodeMessage(e.data);
+        if (event) listener(event);
+      };
+      socket.onclose = () => {
+        this.pending.forEach(job => job.reject(new Error(`Connection to ${this.label} lost`)));
+        if (closed) return;
+        listener({ type: 'connection', state: 'disconnected' });
+        retryTimer = setTimeout(open, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    open();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }
+}
+
+export class EventSourceSource implements AgentSource {
+  readonly kind = 'sse';
+  readonly label: string;
+
+  constructor(private url: string) {
+    this.label = url;
+  }
+
+  connect(listener: AgentSourceListener): () => void {
+    listener({ type: 'connection', state: 'connecting' });
+    const stream = new EventSource(this.url);
+    stream.onopen = () => listener({ type: 'connection', state: 'connected' });
+    stream.onerror = () => listener({
+      type: 'connection',
+      state: stream.readyState === EventSource.CLOSED ? 'disconnected' : 'connecting',
+    });
+    stream.onmessage = (e) => {
+      const event = decodeMessage(e.data);
+      if (event) listener(event);
+    };
+    return () => stream.close();
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock, findScenario } from '../sim';
+import type { Scenario } from '../sim';
+import { SimulatorSource } from './simulator';
+import type { AgentSourceEvent } from './types';
+
+// Runs a simulator on a manual clock and returns everything it emitted.
+async function simulate(options: { seed: number; scenario?: Scenario }, ms: number) {
+  const clock = new ManualClock(1700000000000);
+  const source = new SimulatorSource({ ...options, clock });
+  const events: AgentSourceEvent[] = [];
+  const disconnect = source.connect(event => events.push(event));
+  await clock.advance(ms);
+  disconnect();
+  return { source, events, clock };
+}
+
+function logs(events: AgentSourceEvent[]) {
+  return events.flatMap(event => event.type === 'log' ? [event.log] : []);
+}
+
+describe('SimulatorSource', () => {
+  it('replays the same run for the same seed', async () => {
+    const first = await simulate({ seed: 42 }, 60000);
+    const second = await simulate({ seed: 42 }, 60000);
+    expect(second.events).toEqual(first.events);
+    expect(first.events.length).toBeGreaterThan(40);
+  });
+
+  it('plays a different run for a different seed', async () => {
+    const first = await simulate({ seed: 1 }, 30000);
+    const second = await simulate({ seed: 2 }, 30000);
+    expect(second.events).not.toEqual(first.events);
+  });
+
+  it('ramps a metric to its target and holds it there', async () => {
+    const { events } = await simulate({ seed: 42, scenario: findScenario('cpu-spike') }, 90000);
+    const snapshot = events.find(event => event.type === 'snapshot');
+    const id = snapshot?.type === 'snapshot' ? snapshot.agents.find(a => a.name === 'PHANTOM-X')?.id : undefined;
+    const cpu = events.flatMap(event => event.type === 'update' ? event.agents.filter(a => a.id === id).map(a => a.cpu!) : []);
+
+    // One update per 1.5s tick; the ramp runs from 30s to 40s.
+    const reached = cpu.indexOf(100);
+    expect(reached).toBeGreaterThan(0);
+    expect((reached + 1) * 1500).toBeLessThanOrEqual(42000);
+    expect(cpu.slice(reached).every(value => value === 100)).toBe(true);
+  });
+
+  it('fires scenario events on time', async () => {
+    const scenario = findScenario('error-burst')!;
+    const before = await simulate({ seed: 5, scenario }, 9000);
+    expect(logs(before.events).filter(log => log.message.startsWith('Unhandled exception'))).toHaveLength(0);
+
+    const after = await simulate({ seed: 5, scenario }, 20000);
+    const burst = logs(after.events).filter(log => log.message.startsWith('Unhandled exception'));
+    expect(burst).toHaveLength(50);
+    expect(burst.every(log => log.type === 'error')).toBe(true);
+    // Spread over 5s from t=10s, stamped with the manual clock.
+    const times = burst.map(log => log.timestamp!.getTime() - 1700000000000);
+    expect(Math.min(...times)).toBeGreaterThanOrEqual(10000);
+    expect(Math.max(...times)).toBeLessThanOrEqual(16500);
+  });
+
+  it('reports scenario progress', async () => {
+    const { source } = await simulate({ seed: 1, scenario: findScenario('outage') }, 55000);
+    expect(source.scenario()).toMatchObject({ name: 'outage', elapsedMs: 55000, fired: 1, total: 2 });
+  });
+
+  it('restores the agent status when a lifecycle operation is cancelled', async () => {
+    const clock = new ManualClock(1700000000000);
+    const source = new SimulatorSource({ seed: 3, clock, failureRate: 0 });
+    const events: AgentSourceEvent[] = [];
+    const disconnect = source.connect(event => events.push(event));
+    const snapshot = events.find(event => event.type === 'snapshot');
+    const agent = snapshot?.type === 'snapshot' ? snapshot.agents.find(a => a.status === 'active')! : undefined;
+
+    const controller = new AbortController();
+    const run = source.run({ jobId: 'J1', operation: 'restart', agentId: agent!.id, signal: controller.signal }, () => {});
+    const outcome = run.then(() => 'done', () => 'aborted');
+    await clock.advance(100);
+    controller.abort(new Error('cancelled'));
+    expect(await outcome).toBe('aborted');
+
+    const statuses = events.flatMap(event => event.type === 'update' ? event.agents.filter(a => a.id === agent!.id && a.status).map(a => a.status) : []);
+    expect(statuses).toEqual(['idle', 'active']);
+    disconnect();
+  });
+});
@@ -0,0 +1,369 @@
+import type { Agent, LogEntry } from '../types';
+import { Random, ScenarioError, randomSeed, systemClock } from '../sim';
+import type { Clock, Scenario, ScenarioEvent } from '../sim';
+import type {
+  AgentPatch,
+  AgentSource,
+  AgentSourceListener,
+  FleetChange,
+  LifecycleOperation,
+  LifecycleRequest,
+  ProgressReporter,
+  TaskRequest,
+} from './types';
+
+export const AGENT_NAMES = ['NEXUS-7', 'PHANTOM-X', 'CIPHER-9', 'VORTEX-3', 'ECHO-5', 'PULSE-2'];
+export const REGIONS = ['us-east', 'eu-west', 'ap-south'];
+export const ROLES = ['gpu-pool', 'cpu-pool', 'edge'];
+export const TASKS = [
+  'Analyzing data streams...',
+  'Executing build pipeline...',
+  'Scanning network nodes...',
+  'Processing neural weights...',
+  'Compiling source modules...',
+  'Indexing knowledge base...',
+  'Running diagnostics...',
+  'Optimizing parameters...',
+];
+
+// Names past the end of AGENT_NAMES get a numeric suffix (NEXUS-7-2) so
+// larger fleets stay unique.
+export function agentName(index: number): string {
+  const round = Math.floor(index / AGENT_NAMES.length);
+  return AGENT_NAMES[index % AGENT_NAMES.length] + (round > 0 ? `-${round + 1}` : '');
+}
+
+export function generateAgent(index: number, random = new Random(randomSeed()), now = Date.now()): Agent {
+  const statuses: Agent['status'][] = ['active', 'active', 'active', 'idle', 'error', 'offline'];
+  return {
+    id: `agent-${index}`,
+    name: agentName(index),
+    status: random.pick(statuses),
+    task: random.pick(TASKS),
+    cpu: random.int(100),
+    memory: random.int(100),
+    uptime: random.int(86400),
+    lastPing: now - random.int(10000),
+    group: REGIONS[index % REGIONS.length],
+    tags: [ROLES[Math.floor(index / 2) % ROLES.length]],
+  };
+}
+
+export interface SimulatorOptions {
+  agentCount?: number;
+  tickMs?: number;
+  failureRate?: number;
+  // Restores a saved registry instead of generating a fresh fleet.
+  agents?: Agent[];
+  // The same seed gives the same fleet and the same run; random if omitted.
+  seed?: number;
+  clock?: Clock;
+  scenario?: Scenario;
+}
+
+export interface ScenarioProgress {
+  name: string;
+  elapsedMs: number;
+  fired: number;
+  total: number;
+  // Events yet to fire, soonest first.
+  upcoming: ScenarioEvent[];
+}
+
+interface Playback {
+  scenario: Scenario;
+  startedAt: number;
+  fired: number;
+  // Keyed by `${agentId}:${metric}`; a ramp holds its target once reached.
+  ramps: Map<string, { from: number; event: Extract<ScenarioEvent, { type: 'ramp' }> }>;
+  bursts: { event: Extract<ScenarioEvent, { type: 'logs' }>; emitted: number }[];
+}
+
+const OPERATION_STEPS: Record<LifecycleOperation, string[]> = {
+  start: ['Allocating runtime', 'Loading model weights', 'Joining agent mesh'],
+  stop: ['Draining in-flight work', 'Shutting down runtime'],
+  restart: ['Draining in-flight work', 'Shutting down runtime', 'Loading model weights', 'Joining agent mesh'],
+  deploy: ['Pulling image', 'Verifying checksum', 'Swapping runtime', 'Running health checks'],
+};
+
+const FINAL_STATUS: Record<LifecycleOperation, Agent['status']> = {
+  start: 'active',
+  stop: 'offline',
+  restart: 'active',
+  deploy: 'active',
+};
+
+function sleep(clock: Clock, ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = clock.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class SimulatorSource implements AgentSource {
+  readonly kind = 'simulator';
+  readonly label = 'simulator';
+  private agents: Agent[];
+  private tickMs: number;
+  private failureRate: number;
+  private agentCount: number;
+  private random: Random;
+  private clock: Clock;
+  private playback: Playback | null = null;
+  private listener: AgentSourceListener | null = null;
+
+  constructor({ agentCount = 6, tickMs = 1500, failureRate = 0.1, agents, seed, clock = systemClock, scenario }: SimulatorOptions = {}) {
+    this.clock = clock;
+    this.random = new Random(seed ?? randomSeed());
+    this.agentCount = agentCount;
+    this.agents = agents ?? this.generateFleet(agentCount);
+    this.tickMs = tickMs;
+    this.failureRate = failureRate;
+    if (scenario) this.load(scenario);
+  }
+
+  get seed(): number {
+    return this.random.seed;
+  }
+
+  connect(listener: AgentSourceListener): () => void {
+    this.listener = listener;
+    listener({ type: 'connection', state: 'connected' });
+    listener({ type: 'snapshot', agents: this.agents });
+
+    const interval = this.clock.setInterval(() => this.tick(listener), this.tickMs);
+    return () => {
+      this.clock.clearInterval(interval);
+      if (this.listener === listener) this.listener = null;
+    };
+  }
+
+  // Starts over from `seed`: a freshly generated fleet of the current size,
+  // and the loaded scenario (if any) from t=0.
+  reseed(seed: number) {
+    this.random = new Random(seed);
+    this.agents = this.generateFleet(this.agents.length || this.agentCount);
+    this.listener?.({ type: 'snapshot', agents: this.agents });
+    if (this.playback) this.playback = this.startPlayback(this.playback.scenario);
+  }
+
+  // Replaces any running scenario. Its clock starts now; a scenario with a
+  // seed reseeds first so the whole run replays exactly.
+  load(scenario: Scenario) {
+    const names = new Set(scenario.seed !== undefined
+      ? Array.from({ length: this.agents.length || this.agentCount }, (_, i) => agentName(i))
+      : this.agents.map(a => a.name));
+    const unknown = [...new Set(scenario.events.flatMap(e => e.agent && !names.has(e.agent) ? [e.agent] : []))];
+    if (unknown.length > 0) throw new ScenarioError(`Scenario '${scenario.name}' names unknown agent(s): ${unknown.join(', ')}`);
+
+    this.playback = null;
+    if (scenario.seed !== undefined) this.reseed(scenario.seed);
+    this.playback = this.startPlayback(scenario);
+  }
+
+  // Stops the scenario; ramped metrics go back to drifting.
+  unload(): Scenario | null {
+    const scenario = this.playback?.scenario ?? null;
+    this.playback = null;
+    return scenario;
+  }
+
+  scenario(): ScenarioProgress | null {
+    if (!this.playback) return null;
+    const { scenario, startedAt, fired } = this.playback;
+    return {
+      name: scenario.name,
+      elapsedMs: this.clock.now() - startedAt,
+      fired,
+      total: scenario.events.length,
+      upcoming: scenario.events.slice(fired),
+    };
+  }
+
+  async run({ operation, agentId, version, signal }: LifecycleRequest, report: ProgressReporter): Promise<void> {
+    if (!this.agents.some(a => a.id === agentId)) throw new Error(`Unknown agent ${agentId}`);
+
+    const steps = OPERATION_STEPS[operation];
+    // Deploys fail twice as often as plain lifecycle changes.
+    const failAt = this.random.chance(this.failureRate * (operation === 'deploy' ? 2 : 1))
+      ? this.random.int(steps.length)
+      : -1;
+
+    const previous = this.agents.find(a => a.id === agentId)!.status;
+    this.patch({ id: agentId, status: operation === 'start' ? 'offline' : 'idle' });
+    try {
+      for (let i = 0; i < steps.length; i++) {
+        await sleep(this.clock, 400 + this.random.next() * 800, signal);
+        if (i === failAt) throw new Error(`${steps[i]} failed`);
+        const label = operation === 'deploy' && i === 0 ? `${steps[i]} ${version ?? 'latest'}` : steps[i];
+        report(Math.round(((i + 1) / steps.length) * 100), label);
+      }
+    } catch (err) {
+      // A cancel or timeout stops the operation without breaking the agent.
+      this.patch({ id: agentId, status: signal.aborted ? previous : 'error' });
+      throw err;
+    }
+
+    const final: AgentPatch = { id: agentId, status: FINAL_STATUS[operation] };
+    if (operation === 'stop') final.cpu = 0;
+    else final.lastPing = this.clock.now();
+    if (operation === 'start' || operation === 'restart') final.uptime = 0;
+    this.patch(final);
+  }
+
+  async runTask({ agentId, signal }: TaskRequest, report: ProgressReporter): Promise<string> {
+    if (!this.agents.some(a => a.id === agentId)) throw new Error(`Unknown agent ${agentId}`);
+
+    const failures = ['Worker process crashed', 'Out of memory', 'Upstream dependency timed out'];
+    const willFail = this.random.chance(this.failureRate);
+    let progress = 0;
+    while (progress < 100) {
+      await sleep(this.clock, 500 + this.random.next() * 1000, signal);
+      progress = Math.min(100, progress + 10 + this.random.int(20));
+      if (willFail && progress > 50) throw new Error(this.random.pick(failures));
+      report(progress, progress < 100 ? 'Processing' : 'Finalizing');
+    }
+    return `Processed ${100 + this.random.int(9900)} records`;
+  }
+
+  async manage(change: FleetChange): Promise<void> {
+    switch (change.action) {
+      case 'add':
+        if (this.agents.some(a => a.id === change.agent.id)) throw new Error(`Agent ${change.agent.id} already exists`);
+        this.agents = [...this.agents, change.agent];
+        this.listener?.({ type: 'update', agents: [change.agent] });
+        break;
+      case 'remove':
+        if (!this.agents.some(a => a.id === change.agentId)) throw new Error(`Unknown agent ${change.agentId}`);
+        this.agents = this.agents.filter(a => a.id !== change.agentId);
+        this.listener?.({ type: 'remove', agentIds: [change.agentId] });
+        break;
+      case 'update':
+        if (!this.agents.some(a => a.id === change.agentId)) throw new Error(`Unknown agent ${change.agentId}`);
+        this.patch({ id: change.agentId, ...change.changes });
+        break;
+    }
+  }
+
+  private patch(patch: AgentPatch) {
+    this.agents = this.agents.map(a => a.id === patch.id ? { ...a, ...patch } : a);
+    this.listener?.({ type: 'update', agents: [patch] });
+  }
+
+  private generateFleet(count: number): Agent[] {
+    return Array.from({ length: count }, (_, i) => generateAgent(i, this.random, this.clock.now()));
+  }
+
+  private startPlayback(scenario: Scenario): Playback {
+    return { scenario, startedAt: this.clock.now(), fired: 0, ramps: new Map(), bursts: [] };
+  }
+
+  // Fires scenario events that have come due and returns the elapsed time.
+  private fireEvents(playback: Playback, listener: AgentSourceListener): number {
+    const elapsed = this.clock.now() - playback.startedAt;
+    const { events } = playback.scenario;
+    while (playback.fired < events.length && events[playback.fired].at <= elapsed) {
+      const event = events[playback.fired++];
+      const agent = event.agent === null ? undefined : this.agents.find(a => a.name === event.agent);
+      if (event.agent !== null && !agent) continue;
+      switch (event.type) {
+        case 'ramp':
+          playback.ramps.set(`${agent!.id}:${event.metric}`, { from: agent![event.metric], event });
+          break;
+        case 'status':
+          this.patch({ id: agent!.id, status: event.status });
+          break;
+        case 'logs':
+          playback.bursts.push({ event, emitted: 0 });
+          break;
+      }
+    }
+
+    playback.bursts = playback.bursts.filter(burst => {
+      const { event } = burst;
+      const due = event.over > 0 ? Math.round(event.count * Math.min(1, (elapsed - event.at) / event.over)) : event.count;
+      for (; burst.emitted < due; burst.emitted++) {
+        listener({
+          type: 'log',
+          log: {
+            agent: event.agent ?? this.random.pick(this.agents).name,
+            type: event.level,
+            message: event.count > 1 ? `${event.message} (${burst.emitted + 1}/${event.count})` : event.message,
+            timestamp: new Date(this.clock.now()),
+          },
+        });
+      }
+      return burst.emitted < event.count;
+    });
+    return elapsed;
+  }
+
+  private applyRamps(playback: Playback, elapsed: number) {
+    if (playback.ramps.size === 0) return;
+    this.agents = this.agents.map(agent => {
+      let next = agent;
+      (['cpu', 'memory'] as const).forEach(metric => {
+        const ramp = playback.ramps.get(`${agent.id}:${metric}`);
+        if (!ramp) return;
+        const { from, event } = ramp;
+        const progress = event.over > 0 ? Math.min(1, (elapsed - event.at) / event.over) : 1;
+        next = { ...next, [metric]: from + (event.to - from) * progress };
+      });
+      return next;
+    });
+  }
+
+  private tick(listener: AgentSourceListener) {
+    const playback = this.playback;
+    const elapsed = playback && this.agents.length > 0 ? this.fireEvents(playback, listener) : 0;
+
+    // Random log generation
+    const randomAgent = this.agents.length > 0 ? this.random.pick(this.agents) : undefined;
+    const logTypes: LogEntry['type'][] = ['info', 'info', 'info', 'success', 'warning'];
+    const messages = [
+      'Processing batch request #' + this.random.int(9999),
+      'Memory allocation optimized',
+      'Task completed successfully',
+      'Network latency: ' + this.random.int(50) + 'ms',
+      'Cache hit ratio: ' + (85 + this.random.int(15)) + '%',
+      'Checkpoint saved',
+      'Model weights synchronized',
+      'Request queue depth: ' + this.random.int(100),
+    ];
+
+    if (randomAgent && this.random.next() > 0.3) {
+      listener({
+        type: 'log',
+        log: {
+          agent: randomAgent.name,
+          type: this.random.pick(logTypes),
+          message: this.random.pick(messages),
+          timestamp: new Date(this.clock.now()),
+        },
+      });
+    }
+
+    // Update agent metrics
+    const now = this.clock.now();
+    this.agents = this.agents.map(agent => ({
+      ...agent,
+      cpu: Math.max(0, Math.min(100, agent.cpu + (this.random.next() - 0.5) * 20)),
+      memory: Math.max(0, Math.min(100, agent.memory + (this.random.next() - 0.5) * 10)),
+      uptime: agent.uptime + 1,
+      lastPing: agent.status !== 'offline' ? now : agent.lastPing,
+    }));
+    if (playback) this.applyRamps(playback, elapsed);
+    listener({
+      type: 'update',
+      agents: this.agents.map(({ id, cpu, memory, uptime, lastPing }) => ({ id, cpu, memory, uptime, lastPing })),
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import type { Agent, LogEntry } from '../types';
+
+export type AgentPatch = Partial<Agent> & { id: string };
+
+export interface SourceLog {
+  agent: string;
+  type: LogEntry['type'];
+  message: string;
+  timestamp?: Date;
+}
+
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected';
+
+export type AgentSourceEvent =
+  | { type: 'snapshot'; agents: Agent[] }
+  | { type: 'update'; agents: AgentPatch[] }
+  | { type: 'remove'; agentIds: string[] }
+  | { type: 'log'; log: SourceLog }
+  | { type: 'connection'; state: ConnectionState };
+
+export type AgentSourceListener = (event: AgentSourceEvent) => void;
+
+export type LifecycleOperation = 'start' | 'stop' | 'restart' | 'deploy';
+
+export interface LifecycleRequest {
+  jobId: string;
+  operation: LifecycleOperation;
+  agentId: string;
+  version?: string;
+  signal: AbortSignal;
+}
+
+export type ProgressReporter = (progress: number, message: string) => void;
+
+export interface TaskRequest {
+  taskId: string;
+  agentId: string;
+  title: string;
+  payload?: string;
+  signal: AbortSignal;
+}
+
+export type FleetChange =
+  | { action: 'add'; agent: Agent }
+  | { action: 'remove'; agentId: string }
+  | { action: 'update'; agentId: string; changes: Pick<AgentPatch, 'name' | 'group' | 'tags'> };
+
+export interface AgentSource {
+  readonly kind: 'simulator' | 'websocket' | 'sse';
+  readonly label: string;
+  connect(listener: AgentSourceListener): () => void;
+  // Resolves once the operation has finished on the agent; rejects with the
+  // failure reason otherwise. Sources without a control channel omit this.
+  run?(request: LifecycleRequest, report: ProgressReporter): Promise<void>;
+  // Executes a queued task on the agent and resolves with its result.
+  runTask?(request: TaskRequest, report: ProgressReporter): Promise<string>;
+  // Adds, removes or updates an agent in the source's registry; the result
+  // arrives through the usual update/remove events.
+  manage?(change: FleetChange, signal: AbortSignal): Promise<void>;
+}
@@ -0,0 +1,2 @@
+export { TaskQueue } from './queue';
+export type { Task, TaskHooks, TaskStatus, TaskSubmission } from './queue';
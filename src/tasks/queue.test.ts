@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock } from '../sim';
+import type { Clock } from '../sim';
+import type { AgentSource, TaskRequest } from '../sources';
+import type { Agent } from '../types';
+import { TaskQueue } from './queue';
+import type { Task } from './queue';
+
+function agent(id: string, status: Agent['status'] = 'idle'): Agent {
+  return { id, name: id.toUpperCase(), status, task: '', cpu: 0, memory: 0, uptime: 0, lastPing: 0 };
+}
+
+// A source whose runTask fails for the first `failures` attempts.
+function flakySource(failures: number) {
+  const requests: TaskRequest[] = [];
+  const source: AgentSource = {
+    kind: 'simulator',
+    label: 'test',
+    connect: () => () => {},
+    runTask: async (request) => {
+      requests.push(request);
+      if (requests.length <= failures) throw new Error(`boom ${requests.length}`);
+      return `done on ${request.agentId}`;
+    },
+  };
+  return { source, requests };
+}
+
+function createQueue(source: AgentSource, clock?: Clock) {
+  const logs: string[] = [];
+  const released: string[] = [];
+  const queue = new TaskQueue({
+    log: (_agent, type, message) => logs.push(`${type}: ${message}`),
+    claimAgent: () => {},
+    releaseAgent: (agentId) => released.push(agentId),
+    onChange: () => {},
+  }, clock);
+  queue.attach(source);
+  return { queue, logs, released };
+}
+
+// Lets the running attempt settle.
+const flush = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+async function runUntilSettled(queue: TaskQueue, agents: Agent[], id: string): Promise<Task> {
+  for (let i = 0; i < 10; i++) {
+    queue.dispatch(agents);
+    await flush();
+    const task = queue.get(id)!;
+    if (task.status !== 'queued' && task.status !== 'running') return task;
+  }
+  return queue.get(id)!;
+}
+
+describe('TaskQueue', () => {
+  it('retries a failed attempt on a different agent', async () => {
+    const { source, requests } = flakySource(1);
+    const { queue, logs, released } = createQueue(source);
+    const task = queue.submit({ title: 'build' });
+
+    const settled = await runUntilSettled(queue, [agent('a1'), agent('a2')], task.id);
+
+    expect(settled).toMatchObject({ status: 'succeeded', attempts: 2, agentId: 'a2', result: 'done on a2' });
+    expect(requests.map(r => r.agentId)).toEqual(['a1', 'a2']);
+    expect(released).toEqual(['a1', 'a2']);
+    expect(logs).toContain('warning: Task T1 failed: boom 1. Retrying (1/3).');
+  });
+
+  it('fails once maxAttempts is used up', async () => {
+    const { source, requests } = flakySource(5);
+    const { queue, logs } = createQueue(source);
+    const task = queue.submit({ title: 'build', maxAttempts: 2 });
+
+    const settled = await runUntilSettled(queue, [agent('a1')], task.id);
+
+    expect(settled).toMatchObject({ status: 'failed', attempts: 2, error: 'boom 2' });
+    expect(requests).toHaveLength(2);
+    expect(logs.at(-1)).toBe('error: Task T1 failed after 2 attempt(s): boom 2');
+  });
+
+  it('keeps pinned tasks queued until their agent is available', async () => {
+    const { source, requests } = flakySource(0);
+    const { queue } = createQueue(source);
+    const task = queue.submit({ title: 'build', agentId: 'a2' });
+
+    queue.dispatch([agent('a1'), agent('a2', 'offline')]);
+    await flush();
+    expect(queue.get(task.id)!.status).toBe('queued');
+    expect(requests).toEqual([]);
+
+    const settled = await runUntilSettled(queue, [agent('a1'), agent('a2')], task.id);
+    expect(settled).toMatchObject({ status: 'succeeded', agentId: 'a2' });
+  });
+
+  it('fails queued tasks pinned to a removed agent', () => {
+    const { source } = flakySource(0);
+    const { queue } = createQueue(source);
+    const task = queue.submit({ title: 'build', agentId: 'gone' });
+
+    queue.dispatch([agent('a1')]);
+
+    expect(queue.get(task.id)).toMatchObject({ status: 'failed', error: 'Agent gone was removed' });
+  });
+
+  it('times out attempts on its clock', async () => {
+    const clock = new ManualClock(5000);
+    const source: AgentSource = {
+      kind: 'simulator',
+      label: 'test',
+      connect: () => () => {},
+      runTask: ({ signal }) => new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason))),
+    };
+    const { queue } = createQueue(source, clock);
+    const task = queue.submit({ title: 'hang', maxAttempts: 1 });
+    queue.dispatch([agent('a1')]);
+
+    await clock.advance(59999);
+    expect(queue.get(task.id)!.status).toBe('running');
+    await clock.advance(1);
+    expect(queue.get(task.id)).toMatchObject({
+      status: 'failed',
+      error: 'Timed out after 60s',
+      createdAt: 5000,
+      startedAt: 5000,
+      finishedAt: 65000,
+    });
+  });
+});
+
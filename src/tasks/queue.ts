@@ -0,0 +1,224 @@
+import { systemClock } from '../sim';
+import type { Clock } from '../sim';
+import type { AgentSource } from '../sources';
+import type { Agent, LogEntry } from '../types';
+
+export type TaskStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Task {
+  id: string;
+  title: string;
+  payload?: string;
+  // Agent the task is pinned to; null lets the dispatcher pick any idle agent.
+  pinnedAgentId: string | null;
+  agentId: string | null;
+  status: TaskStatus;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: string;
+  error?: string;
+}
+
+export interface TaskSubmission {
+  title: string;
+  payload?: string;
+  agentId?: string | null;
+  maxAttempts?: number;
+}
+
+export interface TaskHooks {
+  log: (agent: string, type: LogEntry['type'], message: string) => void;
+  // Marks the agent busy with a task title; release returns it to idle
+  // unless something else (liveness, a failed job) has changed its status.
+  claimAgent: (agentId: string, task: string) => void;
+  releaseAgent: (agentId: string) => void;
+  onChange: (tasks: Task[]) => void;
+}
+
+// FIFO task queue. dispatch() hands queued tasks to agents that are up and
+// not already running one, and failed attempts go back on the queue until
+// maxAttempts is reached, preferring a different agent for the retry.
+export class TaskQueue {
+  private tasks: Task[] = [];
+  private running = new Map<string, AbortController>();
+  private lastFailedOn = new Map<string, string>();
+  private source: AgentSource | null = null;
+  private nextId = 1;
+
+  constructor(private hooks: TaskHooks, private clock: Clock = systemClock, private timeoutMs = 60000, private keep = 200) {}
+
+  attach(source: AgentSource | null) {
+    this.source = source;
+  }
+
+  list(): Task[] {
+    return [...this.tasks];
+  }
+
+  get(id: string): Task | undefined {
+    return this.tasks.find(t => t.id.toLowerCase() === id.toLowerCase());
+  }
+
+  runningOn(agentId: string): Task | undefined {
+    return this.tasks.find(t => t.status === 'running' && t.agentId === agentId);
+  }
+
+  submit({ title, payload, agentId = null, maxAttempts = 3 }: TaskSubmission): Task {
+    const task: Task = {
+      id: `T${this.nextId++}`,
+      title,
+      payload,
+      pinnedAgentId: agentId,
+      agentId: null,
+      status: 'queued',
+      progress: 0,
+      attempts: 0,
+      maxAttempts,
+      createdAt: this.clock.now(),
+    };
+    this.tasks = [...this.tasks, task];
+    this.prune();
+    this.emit();
+    return task;
+  }
+
+  // Pins a queued task to an agent, or moves a running one there (the
+  // current attempt is cancelled and the task re-queued without using up a retry).
+  assign(id: string, agentId: string): Task | undefined {
+    const task = this.get(id);
+    if (!task || (task.status !== 'queued' && task.status !== 'running')) return undefined;
+    if (task.status === 'running') {
+      this.running.get(task.id)?.abort(new Error('reassigned'));
+      this.finishAttempt(task, { status: 'queued', attempts: task.attempts - 1 });
+    }
+    this.update(task.id, { pinnedAgentId: agentId });
+    return this.get(id);
+  }
+
+  cancel(id: string): Task | undefined {
+    const task = this.get(id);
+    if (!task || (task.status !== 'queued' && task.status !== 'running')) return undefined;
+    if (task.status === 'running') {
+      this.running.get(task.id)?.abort(new Error('cancelled'));
+      this.finishAttempt(task, { status: 'cancelled', finishedAt: this.clock.now() });
+    } else {
+      this.update(task.id, { status: 'cancelled', finishedAt: this.clock.now() });
+    }
+    return this.get(id);
+  }
+
+  dispatch(agents: Agent[], isBusy: (agentId: string) => boolean = () => false) {
+    // Tasks stranded on an agent that went down fail this attempt.
+    for (const task of this.tasks) {
+      if (task.status !== 'running') continue;
+      const agent = agents.find(a => a.id === task.agentId);
+      if (!agent || agent.status === 'offline' || agent.status === 'error') {
+        this.running.get(task.id)?.abort(new Error(`Agent ${agent?.name ?? task.agentId} went ${agent?.status ?? 'missing'}`));
+      }
+    }
+
+    // Tasks pinned to an agent that has been removed can never run.
+    for (const task of this.tasks) {
+      if (task.status === 'queued' && task.pinnedAgentId && !agents.some(a => a.id === task.pinnedAgentId)) {
+        this.update(task.id, { status: 'failed', error: `Agent ${task.pinnedAgentId} was removed`, finishedAt: this.clock.now() });
+        this.hooks.log('SYSTEM', 'error', `Task ${task.id} failed: agent ${task.pinnedAgentId} was removed`);
+      }
+    }
+
+    const available = agents.filter(a =>
+      (a.status === 'active' || a.status === 'idle') && !this.runningOn(a.id) && !isBusy(a.id));
+    for (const task of this.tasks) {
+      if (task.status !== 'queued' || available.length === 0) continue;
+      let index: number;
+      if (task.pinnedAgentId) {
+        index = available.findIndex(a => a.id === task.pinnedAgentId);
+      } else {
+        const avoid = this.lastFailedOn.get(task.id);
+        index = available.findIndex(a => a.id !== avoid);
+        if (index === -1) index = 0;
+      }
+      if (index === -1) continue;
+      const [agent] = available.splice(index, 1);
+      void this.execute(task, agent);
+    }
+  }
+
+  private async execute(queued: Task, agent: Agent) {
+    const source = this.source;
+    const controller = new AbortController();
+    this.running.set(queued.id, controller);
+    this.update(queued.id, {
+      status: 'running',
+      agentId: agent.id,
+      attempts: queued.attempts + 1,
+      progress: 0,
+      startedAt: this.clock.now(),
+      error: undefined,
+    });
+    const task = this.get(queued.id)!;
+    this.hooks.claimAgent(agent.id, task.title);
+    this.hooks.log(agent.name, 'system', `Task ${task.id} started: ${task.title} (attempt ${task.attempts}/${task.maxAttempts})`);
+
+    const timer = this.clock.setTimeout(() => controller.abort(new Error(`Timed out after ${Math.round(this.timeoutMs / 1000)}s`)), this.timeoutMs);
+    try {
+      if (!source?.runTask) throw new Error(`Agent source ${source?.label ?? '(none)'} cannot run tasks`);
+      const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+      });
+      const result = await Promise.race([
+        source.runTask(
+          { taskId: task.id, agentId: agent.id, title: task.title, payload: task.payload, signal: controller.signal },
+          (progress) => {
+            if (this.running.get(task.id) === controller) this.update(task.id, { progress });
+          },
+        ),
+        aborted,
+      ]);
+      if (this.running.get(task.id) !== controller) return;
+      this.finishAttempt(this.get(task.id)!, { status: 'succeeded', progress: 100, result, finishedAt: this.clock.now() });
+      this.hooks.log(agent.name, 'success', `Task ${task.id} succeeded: ${result}`);
+    } catch (err) {
+      // Cancel and reassign settle the task themselves.
+      if (this.running.get(task.id) !== controller) return;
+      const error = err instanceof Error ? err.message : String(err);
+      const current = this.get(task.id)!;
+      this.lastFailedOn.set(task.id, agent.id);
+      if (current.attempts < current.maxAttempts) {
+        this.finishAttempt(current, { status: 'queued', error });
+        this.hooks.log(agent.name, 'warning', `Task ${task.id} failed: ${error}. Retrying (${current.attempts}/${current.maxAttempts}).`);
+      } else {
+        this.finishAttempt(current, { status: 'failed', error, finishedAt: this.clock.now() });
+        this.hooks.log(agent.name, 'error', `Task ${task.id} failed after ${current.attempts} attempt(s): ${error}`);
+      }
+    } finally {
+      this.clock.clearTimeout(timer);
+    }
+  }
+
+  private finishAttempt(task: Task, patch: Partial<Task>) {
+    this.running.delete(task.id);
+    if (task.agentId) this.hooks.releaseAgent(task.agentId);
+    this.update(task.id, { ...patch, agentId: patch.status === 'queued' ? null : task.agentId });
+    if (patch.status !== 'queued') this.lastFailedOn.delete(task.id);
+  }
+
+  private prune() {
+    let excess = this.tasks.length - this.keep;
+    if (excess <= 0) return;
+    this.tasks = this.tasks.filter(t =>
+      !((t.status === 'succeeded' || t.status === 'failed' || t.status === 'cancelled') && excess-- > 0));
+  }
+
+  private update(id: string, patch: Partial<Task>) {
+    this.tasks = this.tasks.map(t => t.id === id ? { ...t, ...patch } : t);
+    this.emit();
+  }
+
+  private emit() {
+    this.hooks.onChange(this.list());
+  }
+}
@@ -0,0 +1,20 @@
+export interface Agent {
+  id: string;
+  name: string;
+  status: 'active' | 'idle' | 'error' | 'offline';
+  task: string;
+  cpu: number;
+  memory: number;
+  uptime: number;
+  lastPing: number;
+  group?: string;
+  tags?: string[];
+}
+
+export interface LogEntry {
+  id: string;
+  timestamp: Date;
+  agent: string;
+  type: 'info' | 'success' | 'warning' | 'error' | 'system';
+  message: string;
+}
@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AGENT_SOURCE?: string;
+  readonly VITE_LOG_RETENTION?: string;
+  readonly VITE_HEARTBEAT_TIMEOUT?: string;
+}